@@ -0,0 +1,137 @@
+import type { Request, Response } from 'express';
+import { outboxService } from '../services/outboxService.js';
+import { tokenVaultService } from '../services/tokenVaultService.js';
+import { tokenRefreshService } from '../services/tokenRefreshService.js';
+
+// ============================================
+// OUTBOX / DEAD-LETTER CONTROLLERS
+// ============================================
+
+/**
+ * GET /api/v1/instagram/auth/admin/outbox
+ * Stato della coda di consegna verso IVOT
+ */
+export const getOutboxStats = (req: Request, res: Response) => {
+  res.status(200).json(outboxService.stats());
+};
+
+/**
+ * GET /api/v1/instagram/auth/admin/outbox/dead-letters
+ * Elenca gli eventi non consegnati
+ */
+export const listDeadLetters = (req: Request, res: Response) => {
+  const deadLetters = outboxService.listDeadLetters();
+
+  res.status(200).json({
+    count: deadLetters.length,
+    dead_letters: deadLetters.map(record => ({
+      id: record.id,
+      event_type: record.event_type,
+      attempts: record.attempts,
+      created_at: record.created_at,
+      dead_lettered_at: record.dead_lettered_at,
+      last_status: record.last_status,
+      last_error: record.last_error
+    }))
+  });
+};
+
+/**
+ * GET /api/v1/instagram/auth/admin/outbox/dead-letters/:id
+ * Dettaglio di un evento in dead-letter (payload incluso)
+ */
+export const getDeadLetter = (req: Request, res: Response) => {
+  const record = outboxService.getDeadLetter(req.params['id'] as string);
+
+  if (!record) {
+    return res.status(404).json({ error: 'Evento non trovato in dead-letter' });
+  }
+
+  res.status(200).json(record);
+};
+
+/**
+ * POST /api/v1/instagram/auth/admin/outbox/dead-letters/:id/redrive
+ * Rimette in coda un evento in dead-letter
+ */
+export const redriveDeadLetter = (req: Request, res: Response) => {
+  const record = outboxService.redrive(req.params['id'] as string);
+
+  if (!record) {
+    return res.status(404).json({ error: 'Evento non trovato in dead-letter' });
+  }
+
+  res.status(202).json({
+    success: true,
+    id: record.id,
+    message: 'Evento rimesso in coda'
+  });
+};
+
+/**
+ * POST /api/v1/instagram/auth/admin/outbox/dead-letters/redrive
+ * Rimette in coda tutti gli eventi in dead-letter
+ */
+export const redriveAllDeadLetters = (req: Request, res: Response) => {
+  const count = outboxService.redriveAll();
+
+  res.status(202).json({
+    success: true,
+    redriven: count,
+    message: `${count} eventi rimessi in coda`
+  });
+};
+
+// ============================================
+// TOKEN VAULT CONTROLLERS
+// ============================================
+
+/**
+ * GET /api/v1/instagram/auth/admin/token-vault
+ * Account con token salvato (solo metadati, mai il token)
+ * e stato del refresh automatico
+ */
+export const listVaultTokens = async (req: Request, res: Response) => {
+  const tokens = await tokenVaultService.list();
+  const refreshStates = tokenRefreshService.list();
+
+  res.status(200).json({
+    enabled: tokenVaultService.isEnabled(),
+    count: tokens.length,
+    tokens: tokens.map(token => ({
+      ...token,
+      refresh: refreshStates.find(state => state.instagram_account_id === token.instagram_account_id) || null
+    }))
+  });
+};
+
+/**
+ * POST /api/v1/instagram/auth/admin/token-vault/rotate
+ * Ri-cifra i token (vault e post programmati) con la chiave attiva (dopo aver aggiunto una nuova chiave)
+ */
+export const rotateVaultKeys = async (req: Request, res: Response) => {
+  if (!tokenVaultService.isEnabled()) {
+    return res.status(409).json({ error: 'TOKEN_VAULT_DISABLED', message: 'TOKEN_VAULT_KEYS non configurato' });
+  }
+
+  const result = await tokenVaultService.rotate();
+
+  res.status(200).json({
+    success: result.failed.length === 0,
+    ...result
+  });
+};
+
+/**
+ * DELETE /api/v1/instagram/auth/admin/token-vault/:accountId
+ * Rimuove il token di un account (es: disconnessione)
+ */
+export const removeVaultToken = async (req: Request, res: Response) => {
+  const removed = await tokenVaultService.remove(req.params['accountId'] as string);
+
+  if (!removed) {
+    return res.status(404).json({ error: 'Token non trovato' });
+  }
+
+  res.status(200).json({ success: true });
+};
@@ -0,0 +1,37 @@
+import type { Request, Response } from 'express';
+import { CAPTION_LIMITS, validateCaption } from '../utils/caption.js';
+
+// ============================================
+// CAPTION CONTROLLERS
+// ============================================
+
+/**
+ * POST /api/v1/instagram/auth/captions/lint
+ * Verifica una caption senza pubblicare (feedback live del composer)
+ */
+export const lintCaption = (req: Request, res: Response) => {
+  const { caption } = req.body;
+
+  if (caption === undefined) {
+    return res.status(400).json({
+      error: 'Parametri mancanti',
+      required: ['caption']
+    });
+  }
+
+  const result = validateCaption(caption);
+
+  res.json({
+    valid: result.valid,
+    errors: result.errors,
+    normalized_caption: result.caption,
+    length: result.length,
+    hashtags: result.hashtags,
+    mentions: result.mentions,
+    limits: {
+      max_length: CAPTION_LIMITS.MAX_LENGTH,
+      max_hashtags: CAPTION_LIMITS.HASHTAGS_MAX,
+      max_mentions: CAPTION_LIMITS.MENTIONS_MAX
+    }
+  });
+};
@@ -0,0 +1,283 @@
+import type { Request, Response } from 'express';
+import { instagramService } from '../services/instagramService.js';
+import { getGraphError, sendGraphError } from '../utils/graphErrors.js';
+import { toGraphMessage, validateOutboundMessage } from '../utils/outboundMessage.js';
+import {
+  getPrivateReply,
+  reservePrivateReply,
+  confirmPrivateReply,
+  releasePrivateReply
+} from '../utils/privateReplyTracker.js';
+
+// ============================================
+// COMMENT MODERATION CONTROLLERS
+// ============================================
+
+// Limite Instagram per il testo di un commento
+const COMMENT_MAX_LENGTH = 2200;
+
+/**
+ * Errori specifici dei commenti, poi mapping Graph standard (190/4/32/200)
+ */
+function sendCommentError(res: Response, error: unknown, fallbackMessage: string) {
+  const fbError = getGraphError(error);
+
+  // Oggetto inesistente: commento già eliminato o ID errato
+  if (fbError?.code === 100 && fbError?.error_subcode === 33) {
+    return res.status(404).json({
+      error: 'COMMENT_NOT_FOUND',
+      message: 'Commento inesistente o già rimosso',
+      facebook_error: fbError
+    });
+  }
+
+  // Il commento è su un media che non appartiene all'account
+  // (200 = permessi/scope mancanti: gestito dal mapping standard)
+  if (fbError?.code === 10) {
+    return res.status(403).json({
+      error: 'COMMENT_NOT_OWNED',
+      message: 'Il commento non è su un media di questo account',
+      facebook_error: fbError
+    });
+  }
+
+  return sendGraphError(res, error, fallbackMessage);
+}
+
+/**
+ * Verifica che il commento sia su un media dell'account indicato;
+ * se non lo è risponde 403 e restituisce false
+ */
+async function ensureCommentOwned(
+  res: Response,
+  commentId: string,
+  instagram_account_id: string,
+  access_token: string
+): Promise<boolean> {
+  const ownerId = await instagramService.getCommentMediaOwner(commentId, access_token);
+
+  if (ownerId !== instagram_account_id) {
+    console.warn('[COMMENTS] 🚫 Commento non su un media dell\'account:', { account: instagram_account_id, commentId });
+    res.status(403).json({
+      error: 'COMMENT_NOT_OWNED',
+      message: 'Il commento non è su un media di questo account'
+    });
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Legge i parametri comuni da body (o query per DELETE);
+ * il token è già risolto dal middleware (esplicito o dal vault)
+ */
+function readCommentParams(req: Request, res: Response) {
+  return {
+    commentId: req.params['id'] as string,
+    instagram_account_id: (req.body?.instagram_account_id || req.query['instagram_account_id']) as string,
+    access_token: res.locals.accessToken as string | undefined
+  };
+}
+
+/**
+ * POST /api/v1/instagram/auth/comments/:id/replies
+ * Risponde pubblicamente a un commento
+ */
+export const replyToComment = async (req: Request, res: Response) => {
+  try {
+    const { commentId, instagram_account_id, access_token } = readCommentParams(req, res);
+    const { message } = req.body;
+
+    if (!instagram_account_id || !access_token || !message) {
+      return res.status(400).json({
+        error: 'Parametri mancanti',
+        required: ['instagram_account_id', 'access_token', 'message']
+      });
+    }
+
+    if (typeof message !== 'string' || message.length > COMMENT_MAX_LENGTH) {
+      return res.status(400).json({
+        error: 'message non valido',
+        message: `Il testo deve essere una stringa di massimo ${COMMENT_MAX_LENGTH} caratteri`
+      });
+    }
+
+    if (!await ensureCommentOwned(res, commentId, instagram_account_id, access_token)) return;
+
+    console.log('[COMMENTS] 💬 Reply to comment:', { account: instagram_account_id, commentId });
+
+    const reply = await instagramService.replyToComment(commentId, message, access_token);
+
+    res.status(201).json({
+      success: true,
+      comment_id: commentId,
+      reply_id: reply.id
+    });
+
+  } catch (error) {
+    console.error('[COMMENTS] ❌ Error reply:', error);
+    sendCommentError(res, error, 'Errore risposta commento');
+  }
+};
+
+/**
+ * Handler condiviso per hide/unhide
+ */
+const setCommentHidden = (hide: boolean) => async (req: Request, res: Response) => {
+  try {
+    const { commentId, instagram_account_id, access_token } = readCommentParams(req, res);
+
+    if (!instagram_account_id || !access_token) {
+      return res.status(400).json({
+        error: 'Parametri mancanti',
+        required: ['instagram_account_id', 'access_token']
+      });
+    }
+
+    if (!await ensureCommentOwned(res, commentId, instagram_account_id, access_token)) return;
+
+    console.log(`[COMMENTS] ${hide ? '🙈 Hide' : '👁️ Unhide'} comment:`, { account: instagram_account_id, commentId });
+
+    await instagramService.setCommentHidden(commentId, hide, access_token);
+
+    res.json({
+      success: true,
+      comment_id: commentId,
+      hidden: hide
+    });
+
+  } catch (error) {
+    console.error('[COMMENTS] ❌ Error hide/unhide:', error);
+    sendCommentError(res, error, hide ? 'Errore hide commento' : 'Errore unhide commento');
+  }
+};
+
+/**
+ * POST /api/v1/instagram/auth/comments/:id/hide
+ * Nasconde un commento
+ */
+export const hideComment = setCommentHidden(true);
+
+/**
+ * POST /api/v1/instagram/auth/comments/:id/unhide
+ * Rende di nuovo visibile un commento
+ */
+export const unhideComment = setCommentHidden(false);
+
+/**
+ * DELETE /api/v1/instagram/auth/comments/:id
+ * Elimina un commento
+ */
+export const deleteComment = async (req: Request, res: Response) => {
+  try {
+    const { commentId, instagram_account_id, access_token } = readCommentParams(req, res);
+
+    if (!instagram_account_id || !access_token) {
+      return res.status(400).json({
+        error: 'Parametri mancanti',
+        required: ['instagram_account_id', 'access_token']
+      });
+    }
+
+    if (!await ensureCommentOwned(res, commentId, instagram_account_id, access_token)) return;
+
+    console.log('[COMMENTS] 🗑️ Delete comment:', { account: instagram_account_id, commentId });
+
+    await instagramService.deleteComment(commentId, access_token);
+
+    res.json({
+      success: true,
+      comment_id: commentId,
+      deleted: true
+    });
+
+  } catch (error) {
+    console.error('[COMMENTS] ❌ Error delete:', error);
+    sendCommentError(res, error, 'Errore eliminazione commento');
+  }
+};
+
+/**
+ * POST /api/v1/instagram/auth/comments/:id/private-reply
+ * Risposta privata (DM) all'autore di un commento: una sola per commento, entro 7 giorni
+ */
+export const sendPrivateReply = async (req: Request, res: Response) => {
+  const { commentId, instagram_account_id, access_token } = readCommentParams(req, res);
+  let reserved = false;
+
+  try {
+    const { message } = req.body;
+
+    if (!instagram_account_id || !access_token || !message) {
+      return res.status(400).json({
+        error: 'Parametri mancanti',
+        required: ['instagram_account_id', 'access_token', 'message']
+      });
+    }
+
+    const validation = validateOutboundMessage(message);
+
+    if (!validation.valid || !validation.message) {
+      return res.status(400).json({
+        error: 'INVALID_MESSAGE',
+        message: 'Messaggio non valido',
+        details: validation.errors
+      });
+    }
+
+    if (!await ensureCommentOwned(res, commentId, instagram_account_id, access_token)) return;
+
+    reserved = reservePrivateReply(commentId);
+
+    if (!reserved) {
+      const existing = getPrivateReply(commentId);
+
+      return res.status(409).json({
+        error: 'PRIVATE_REPLY_ALREADY_SENT',
+        message: 'Risposta privata già inviata (o in invio) per questo commento',
+        comment_id: commentId,
+        message_id: existing?.message_id,
+        replied_at: existing?.replied_at
+      });
+    }
+
+    console.log('[PRIVATE_REPLY] 📩 Sending private reply:', {
+      account: instagram_account_id,
+      commentId,
+      type: validation.message.type
+    });
+
+    const result = await instagramService.sendMessage(
+      instagram_account_id,
+      { comment_id: commentId },
+      toGraphMessage(validation.message),
+      access_token
+    );
+
+    confirmPrivateReply({
+      comment_id: commentId,
+      instagram_account_id,
+      message_id: result.message_id,
+      recipient_id: result.recipient_id,
+      replied_at: new Date().toISOString()
+    });
+
+    console.log('[PRIVATE_REPLY] ✅ Private reply sent:', result.message_id);
+
+    res.json({
+      success: true,
+      comment_id: commentId,
+      message_id: result.message_id,
+      recipient_id: result.recipient_id
+    });
+
+  } catch (error) {
+    if (reserved) {
+      releasePrivateReply(commentId);
+    }
+
+    console.error('[PRIVATE_REPLY] ❌ Error:', error);
+    sendCommentError(res, error, 'Errore invio risposta privata');
+  }
+};
@@ -0,0 +1,113 @@
+import type { Request, Response } from 'express';
+import { instagramService } from '../services/instagramService.js';
+import { sendGraphError } from '../utils/graphErrors.js';
+import {
+  getMediaKind,
+  normalizeInsights,
+  validateAccountInsightsQuery,
+  validateMediaMetrics
+} from '../utils/insightsMetrics.js';
+
+// ============================================
+// INSIGHTS CONTROLLERS
+// ============================================
+
+/**
+ * GET /api/v1/instagram/auth/insights/account
+ * Insights account: ?metric=reach,views&period=day&since=...&until=...
+ */
+export const getAccountInsights = async (req: Request, res: Response) => {
+  try {
+    const instagram_account_id = req.query['instagram_account_id'] as string;
+    const access_token: string | undefined = res.locals.accessToken;
+
+    if (!instagram_account_id || !access_token) {
+      return res.status(400).json({
+        error: 'Parametri mancanti',
+        required: ['instagram_account_id', 'access_token', 'metric']
+      });
+    }
+
+    const validation = validateAccountInsightsQuery({
+      metric: req.query['metric'],
+      period: req.query['period'],
+      since: req.query['since'],
+      until: req.query['until']
+    });
+
+    if (!validation.valid || !validation.query) {
+      return res.status(400).json({
+        error: 'INVALID_INSIGHTS_QUERY',
+        message: 'Parametri insights non validi',
+        details: validation.errors
+      });
+    }
+
+    console.log('[INSIGHTS] 📊 Account insights:', {
+      account: instagram_account_id,
+      metrics: validation.query.metrics,
+      period: validation.query.period
+    });
+
+    const data = await instagramService.getAccountInsights(instagram_account_id, access_token, validation.query);
+
+    res.json({
+      instagram_account_id,
+      period: validation.query.period,
+      since: validation.query.since ?? null,
+      until: validation.query.until ?? null,
+      metrics: normalizeInsights(data)
+    });
+
+  } catch (error) {
+    console.error('[INSIGHTS] ❌ Error account insights:', error);
+    sendGraphError(res, error, 'Errore insights account');
+  }
+};
+
+/**
+ * GET /api/v1/instagram/auth/insights/media/:id
+ * Insights di un media: metriche validate in base al tipo (feed, reel, story)
+ */
+export const getMediaInsights = async (req: Request, res: Response) => {
+  try {
+    const mediaId = req.params['id'] as string;
+    const access_token: string | undefined = res.locals.accessToken;
+
+    if (!access_token) {
+      return res.status(400).json({
+        error: 'Parametri mancanti',
+        required: ['access_token']
+      });
+    }
+
+    // Il tipo di media determina quali metriche sono disponibili
+    const media = await instagramService.getMedia(mediaId, access_token);
+    const kind = getMediaKind(media);
+    const validation = validateMediaMetrics(req.query['metric'], kind);
+
+    if (!validation.valid || !validation.query) {
+      return res.status(400).json({
+        error: 'INVALID_INSIGHTS_QUERY',
+        message: `Metriche non valide per media ${kind}`,
+        details: validation.errors
+      });
+    }
+
+    console.log('[INSIGHTS] 📊 Media insights:', { mediaId, kind, metrics: validation.query });
+
+    const data = await instagramService.getMediaInsights(mediaId, validation.query, access_token);
+
+    res.json({
+      media_id: mediaId,
+      media_type: media.media_type,
+      media_product_type: media.media_product_type || null,
+      kind,
+      metrics: normalizeInsights(data)
+    });
+
+  } catch (error) {
+    console.error('[INSIGHTS] ❌ Error media insights:', error);
+    sendGraphError(res, error, 'Errore insights media');
+  }
+};
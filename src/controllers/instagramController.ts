@@ -1,7 +1,21 @@
 import type { Request, Response } from 'express';
 import { instagramService } from '../services/instagramService.js';
-import { createSecureState, verifySecureState } from '../utils/stateHelper.js';
-import axios from 'axios';
+import { consumeSecureState, createSecureState, type StateErrorCode } from '../utils/stateHelper.js';
+import { checkCallbackUrl } from '../utils/callbackAllowlist.js';
+import { publishJobService, toPublicPublishJob } from '../services/publishJobService.js';
+import { tokenVaultService } from '../services/tokenVaultService.js';
+import { authHandoffService } from '../services/authHandoffService.js';
+import { acceptPublishJob, readCallbackUrl } from '../utils/publishJobResponse.js';
+import {
+  carouselMediaToValidate,
+  preflightMedia,
+  validateMedia,
+  type MediaTarget,
+  type MediaToValidate
+} from '../utils/mediaValidator.js';
+import { validateCarouselItems, validateImageOptions, validateReelsOptions } from '../utils/publishOptions.js';
+import { removeUploadedFile, resolveLocalMediaPath } from '../utils/localMedia.js';
+import { toCaptionSummary, validateCaption } from '../utils/caption.js';
 
 // ============================================
 // OAUTH CONTROLLERS
@@ -24,6 +38,16 @@ export const startAuth = (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Parametri mancanti' });
     }
 
+    const callbackCheck = checkCallbackUrl(callbackUrl);
+
+    if (!callbackCheck.allowed) {
+      console.warn('[OAUTH] 🚫 callbackUrl rifiutato in startAuth:', { userId, callbackUrl, reason: callbackCheck.reason });
+      return res.status(400).json({
+        error: 'CALLBACK_NOT_ALLOWED',
+        message: 'callbackUrl non ammesso'
+      });
+    }
+
     console.log('🚀 OAuth flow started');
     console.log('   User ID:', userId);
     console.log('   Callback URL:', callbackUrl);
@@ -60,23 +84,21 @@ export const handleCallback = async (req: Request, res: Response) => {
     // Gestisci errori OAuth
     if (error) {
       console.error('❌ OAuth error:', error);
-      const errorUrl = new URL(process.env.IVOT_FRONTEND_URL || 'http://localhost:5173');
-      errorUrl.searchParams.append('success', 'false');
-      errorUrl.searchParams.append('error', error);
-      return res.redirect(errorUrl.toString());
+      return redirectToFrontendError(res, error === 'access_denied' ? 'ACCESS_DENIED' : 'OAUTH_PROVIDER_ERROR');
     }
 
     if (!code || !receivedState) {
-      throw new Error('Parametri mancanti');
+      console.error('❌ Parametri mancanti nel callback OAuth');
+      return redirectToFrontendError(res, 'MISSING_PARAMETERS');
     }
 
-    // ✅ Verifica state con firma HMAC (no cookie!)
+    // ✅ Verifica state con firma HMAC (no cookie!) e consuma il nonce (anti-replay)
     console.log('🔒 Verifying state (CSRF protection)');
-    const verification = verifySecureState(receivedState);
+    const verification = await consumeSecureState(receivedState);
 
     if (!verification.valid) {
-      console.error('❌ State verification failed:', verification.reason);
-      throw new Error(`CSRF verification failed: ${verification.reason}`);
+      console.error('❌ State verification failed:', { code: verification.code, reason: verification.reason });
+      return redirectToFrontendError(res, verification.code!);
     }
 
     console.log('✅ State verified successfully');
@@ -86,6 +108,14 @@ export const handleCallback = async (req: Request, res: Response) => {
     console.log('👤 User ID:', userId);
     console.log('🔗 Callback URL:', callbackUrl);
 
+    // Ricontrollo: l'allowlist può essere cambiata dopo la firma dello state
+    const callbackCheck = checkCallbackUrl(callbackUrl);
+
+    if (!callbackCheck.allowed) {
+      console.warn('[OAUTH] 🚫 callbackUrl rifiutato in handleCallback:', { userId, callbackUrl, reason: callbackCheck.reason });
+      return redirectToFrontendError(res, 'CALLBACK_NOT_ALLOWED');
+    }
+
     // Scambia code per token
     console.log('🔄 Exchanging code for access token');
     const authData = await instagramService.exchangeCodeForAuth(code);
@@ -94,44 +124,101 @@ export const handleCallback = async (req: Request, res: Response) => {
     console.log('   Instagram User ID:', authData.userId);
     console.log(authData.username);
 
-    // ✅ Redirect al backend IVOT con i dati
-    const backendUrl = new URL(callbackUrl);
-    backendUrl.searchParams.append('access_token', authData.accessToken);
-    backendUrl.searchParams.append('platform_user_id', userId)
-    backendUrl.searchParams.append('user_id', authData.userId);
-    backendUrl.searchParams.append('username', authData.username);
-    backendUrl.searchParams.append('expires_in', authData.expiresIn.toString());
-    backendUrl.searchParams.append('expires_at', authData.expiresAt);
-
-    if (authData.accountType) {
-      backendUrl.searchParams.append('account_type', authData.accountType);
-    }
+    // ✅ Redirect al backend IVOT con un codice monouso:
+    // il token non finisce in cronologia del browser, log di proxy o nostri log
+    const handoff = authHandoffService.create({
+      access_token: authData.accessToken,
+      platform_user_id: userId,
+      user_id: authData.userId,
+      username: authData.username,
+      account_type: authData.accountType,
+      expires_in: authData.expiresIn,
+      expires_at: authData.expiresAt
+    });
 
-    console.log('🎉 Redirecting to backend callback');
+    const backendUrl = new URL(callbackUrl);
+    backendUrl.searchParams.append('code', handoff.code);
 
-    console.log(backendUrl)
+    console.log('🎉 Redirecting to backend callback (handoff code valido fino a', handoff.expiresAt + ')');
     res.redirect(backendUrl.toString());
 
   } catch (error) {
+    // Il dettaglio resta nei log: al frontend solo un codice stabile
     console.error('❌ Error in handleCallback:', error);
-    const errorUrl = new URL(process.env.IVOT_FRONTEND_URL || 'http://localhost:5173');
-    errorUrl.searchParams.append('success', 'false');
-    errorUrl.searchParams.append('error', error instanceof Error ? error.message : 'Unknown');
-    res.redirect(errorUrl.toString());
+    redirectToFrontendError(res, 'AUTH_EXCHANGE_FAILED');
   }
 };
 
+type OAuthCallbackErrorCode =
+  | StateErrorCode
+  | 'ACCESS_DENIED'
+  | 'OAUTH_PROVIDER_ERROR'
+  | 'MISSING_PARAMETERS'
+  | 'CALLBACK_NOT_ALLOWED'
+  | 'AUTH_EXCHANGE_FAILED';
+
+/**
+ * Redirect al frontend IVOT in caso di errore nel callback OAuth
+ */
+function redirectToFrontendError(res: Response, error: OAuthCallbackErrorCode) {
+  const errorUrl = new URL(process.env.IVOT_FRONTEND_URL || 'http://localhost:5173');
+  errorUrl.searchParams.append('success', 'false');
+  errorUrl.searchParams.append('error', error);
+  res.redirect(errorUrl.toString());
+}
+
+/**
+ * POST /api/v1/instagram/auth/exchange
+ * IVOT backend scambia il codice ricevuto nel redirect per i dati OAuth
+ */
+export const exchangeAuthCode = (req: Request, res: Response) => {
+  const { code } = req.body || {};
+
+  if (!code || typeof code !== 'string') {
+    return res.status(400).json({ error: 'Parametri mancanti', required: ['code'] });
+  }
+
+  const data = authHandoffService.consume(code);
+
+  if (!data) {
+    console.warn('⚠️ Handoff code non valido, scaduto o già utilizzato');
+    return res.status(400).json({
+      error: 'INVALID_HANDOFF_CODE',
+      message: 'Codice non valido, scaduto o già utilizzato: ripetere il collegamento Instagram'
+    });
+  }
+
+  console.log('✅ Handoff code scambiato per account:', data.user_id);
+
+  res.json({ success: true, ...data });
+};
+
 // ============================================
 // PUBLISHING CONTROLLERS
 // ============================================
 
+/**
+ * Recupera permalink e shortcode reali dopo la pubblicazione.
+ * Un errore qui non deve far fallire una pubblicazione già avvenuta
+ */
+async function lookupPermalink(mediaId: string, accessToken: string) {
+  try {
+    return await instagramService.getMediaPermalink(mediaId, accessToken);
+  } catch (error) {
+    console.warn('⚠️ Impossibile recuperare il permalink del media:', mediaId);
+    return { permalink: null, shortcode: null };
+  }
+}
+
 /**
  * POST /api/v1/instagram/auth/publish/image
  * Pubblica un'immagine su Instagram
+ * Opzioni: location_id, user_tags (username + x/y tra 0 e 1), alt_text, collaborators
  */
 export const publishImage = async (req: Request, res: Response) => {
   try {
-    const { instagram_account_id, access_token, image_url, caption, location_id, user_tags } = req.body;
+    const { instagram_account_id, image_url, caption } = req.body;
+    const access_token: string | undefined = res.locals.accessToken;
 
     // Validazione
     if (!instagram_account_id || !access_token || !image_url) {
@@ -152,6 +239,33 @@ export const publishImage = async (req: Request, res: Response) => {
       });
     }
 
+    const validation = validateImageOptions(req.body);
+
+    if (!validation.valid || !validation.options) {
+      return res.status(400).json({
+        error: 'INVALID_IMAGE_OPTIONS',
+        message: 'Opzioni immagine non valide',
+        details: validation.errors
+      });
+    }
+
+    const imageOptions = validation.options;
+    const callback = readCallbackUrl(req);
+
+    if (!callback.valid) {
+      return res.status(400).json({ error: 'callback_url non valido', message: callback.reason });
+    }
+
+    const captionCheck = validateCaption(caption);
+
+    if (!captionCheck.valid) {
+      return res.status(400).json({
+        error: 'INVALID_CAPTION',
+        message: 'Caption non valida',
+        details: captionCheck.errors
+      });
+    }
+
     console.log('📸 Publishing image to Instagram account:', instagram_account_id);
 
     // Verifica rate limit prima di pubblicare
@@ -175,21 +289,25 @@ export const publishImage = async (req: Request, res: Response) => {
       console.warn('⚠️ Impossibile verificare rate limit, continuo comunque');
     }
 
-    // Pubblica
-    const mediaId = await instagramService.publishSingleImage(
-      instagram_account_id,
-      image_url,
-      caption || '',
-      access_token,
-      { location_id, user_tags }
-    );
+    // Pubblica in background
+    const job = publishJobService.submit('image', instagram_account_id, async onProgress => {
+      // Controlli sul media prima di consumare un container
+      await preflightMedia([{ field: 'image_url', url: image_url, kind: 'image' }], 'feed');
 
-    res.status(200).json({
-      success: true,
-      media_id: mediaId,
-      message: 'Immagine pubblicata con successo su Instagram',
-      instagram_url: `https://www.instagram.com/p/${mediaId}/`
-    });
+      const mediaId = await instagramService.publishSingleImage(
+        instagram_account_id,
+        image_url,
+        captionCheck.caption,
+        access_token,
+        imageOptions,
+        onProgress
+      );
+
+      const { permalink, shortcode } = await lookupPermalink(mediaId, access_token);
+      return { media_id: mediaId, instagram_url: permalink, permalink, shortcode };
+    }, callback.url);
+
+    acceptPublishJob(req, res, job, 'Pubblicazione immagine avviata', { caption: toCaptionSummary(captionCheck) });
 
   } catch (error) {
     console.error('❌ Errore pubblicazione immagine:', error);
@@ -203,84 +321,122 @@ export const publishImage = async (req: Request, res: Response) => {
 
 /**
  * POST /api/v1/instagram/auth/publish/video
- * Pubblica un video su Instagram
+ * Pubblica un video su Instagram come Reel
+ * Sorgente: video_url, oppure upload_type=resumable con file multipart
+ * (campo "video") o file_path locale (dentro LOCAL_MEDIA_DIR)
+ * Opzioni: cover_url, thumb_offset, location_id, share_to_feed, audio_name,
+ * collaborators, user_tags, trial_params
  */
 export const publishVideo = async (req: Request, res: Response) => {
+  const uploadedFile = req.file?.path;
+
   try {
-    const { instagram_account_id, access_token, video_url, caption } = req.body;
+    const { instagram_account_id, video_url, caption, upload_type, file_path } = req.body;
+    const access_token: string | undefined = res.locals.accessToken;
+    const resumable = upload_type === 'resumable' || Boolean(uploadedFile);
     
-    if (!instagram_account_id || !access_token || !video_url) {
+    if (!instagram_account_id || !access_token || (!resumable && !video_url)) {
+      await removeUploadedFile(uploadedFile);
       return res.status(400).json({
         error: 'Parametri mancanti',
-        required: ['instagram_account_id', 'access_token', 'video_url']
+        required: ['instagram_account_id', 'access_token', 'video_url o upload_type=resumable']
       });
     }
-    
-    // Step 1: Crea container video
-    const containerId = await instagramService.createMediaContainer({
-      instagram_account_id,
-      video_url,
-      caption: caption || '',
-      media_type: 'REELS',
-      access_token,
-    });
-    
-    // Step 2: Aspetta che il video sia processato
-    console.log('Video in elaborazione, attendi...');
-    await new Promise(resolve => setTimeout(resolve, 30000));
-    
-    // Step 3: Pubblica
-    const result = await instagramService.publishMedia(
-      instagram_account_id,
-      containerId,
-      access_token
-    );
-    
-    res.status(200).json({
-      success: true,
-      media_id: result.id,
-      message: 'Video pubblicato con successo'
-    });
+
+    const localFile = resumable ? uploadedFile || await resolveLocalMediaPath(file_path) : null;
+
+    if (resumable && !localFile) {
+      return res.status(400).json({
+        error: 'INVALID_VIDEO_SOURCE',
+        message: 'Con upload_type=resumable serve un file multipart (campo "video") o un file_path valido dentro LOCAL_MEDIA_DIR'
+      });
+    }
+
+    const validation = validateReelsOptions(req.body);
+
+    if (!validation.valid || !validation.options) {
+      await removeUploadedFile(uploadedFile);
+      return res.status(400).json({
+        error: 'INVALID_REELS_OPTIONS',
+        message: 'Opzioni Reel non valide',
+        details: validation.errors
+      });
+    }
+
+    const reelsOptions = validation.options;
+    const callback = readCallbackUrl(req);
+
+    if (!callback.valid) {
+      await removeUploadedFile(uploadedFile);
+      return res.status(400).json({ error: 'callback_url non valido', message: callback.reason });
+    }
+
+    const captionCheck = validateCaption(caption);
+
+    if (!captionCheck.valid) {
+      await removeUploadedFile(uploadedFile);
+      return res.status(400).json({
+        error: 'INVALID_CAPTION',
+        message: 'Caption non valida',
+        details: captionCheck.errors
+      });
+    }
+
+    // Container, (upload), polling dello stato e pubblicazione in background
+    const job = publishJobService.submit('video', instagram_account_id, async onProgress => {
+      try {
+        // Stessi controlli anche per i file locali, prima dell'upload resumable
+        await preflightMedia([localFile
+          ? { field: uploadedFile ? 'video' : 'file_path', file_path: localFile, kind: 'video' }
+          : { field: 'video_url', url: video_url, kind: 'video' }
+        ], 'reels');
+
+        const mediaId = localFile
+          ? await instagramService.publishVideoFromFile(
+              instagram_account_id,
+              localFile,
+              captionCheck.caption,
+              access_token,
+              reelsOptions,
+              onProgress
+            )
+          : await instagramService.publishVideo(
+              instagram_account_id,
+              video_url,
+              captionCheck.caption,
+              access_token,
+              { ...reelsOptions, media_type: 'REELS' },
+              onProgress
+            );
+
+        const { permalink, shortcode } = await lookupPermalink(mediaId, access_token);
+        return { media_id: mediaId, instagram_url: permalink, permalink, shortcode };
+      } finally {
+        await removeUploadedFile(uploadedFile);
+      }
+    }, callback.url);
+
+    acceptPublishJob(req, res, job, 'Pubblicazione video avviata', { caption: toCaptionSummary(captionCheck) });
     
   } catch (error) {
     console.error('Errore pubblicazione video:', error);
-    
-    // 🔴 AGGIUNGI QUESTO CONTROLLO
-    if (axios.isAxiosError(error)) {
-      const fbError = error.response?.data?.error;
-      
-      // Token scaduto o invalidato
-      if (fbError?.code === 190) {
-        return res.status(401).json({
-          error: 'TOKEN_EXPIRED',
-          message: 'Token Instagram scaduto o invalidato. Richiede nuovo login.',
-          facebook_error: fbError
-        });
-      }
-      
-      // Rate limit
-      if (fbError?.code === 4 || fbError?.code === 32) {
-        return res.status(429).json({
-          error: 'RATE_LIMIT',
-          message: 'Rate limit raggiunto. Riprova più tardi.',
-          facebook_error: fbError
-        });
-      }
-    }
-    
+    await removeUploadedFile(uploadedFile);
+
     res.status(500).json({
       error: 'Errore durante la pubblicazione video',
       message: error instanceof Error ? error.message : 'Unknown error'
     });
   }
 };
+
 /**
  * POST /api/v1/instagram/auth/publish/carousel
  * Pubblica un carousel (post multipli)
  */
 export const publishCarousel = async (req: Request, res: Response) => {
   try {
-    const { instagram_account_id, access_token, items, caption } = req.body;
+    const { instagram_account_id, items, caption } = req.body;
+    const access_token: string | undefined = res.locals.accessToken;
 
     // Validazione
     if (!instagram_account_id || !access_token || !items) {
@@ -290,30 +446,54 @@ export const publishCarousel = async (req: Request, res: Response) => {
       });
     }
 
-    if (!Array.isArray(items) || items.length < 2 || items.length > 10) {
+    const validation = validateCarouselItems(items);
+
+    if (!validation.valid || !validation.options) {
       return res.status(400).json({
         error: 'items non valido',
-        message: 'items deve essere un array di 2-10 elementi'
+        message: validation.errors[0],
+        details: validation.errors
+      });
+    }
+
+    const callback = readCallbackUrl(req);
+
+    if (!callback.valid) {
+      return res.status(400).json({ error: 'callback_url non valido', message: callback.reason });
+    }
+
+    const carouselItems = validation.options;
+
+    const captionCheck = validateCaption(caption);
+
+    if (!captionCheck.valid) {
+      return res.status(400).json({
+        error: 'INVALID_CAPTION',
+        message: 'Caption non valida',
+        details: captionCheck.errors
       });
     }
 
     console.log('🎠 Publishing carousel to Instagram account:', instagram_account_id);
     console.log('   Items count:', items.length);
 
-    // Pubblica carousel
-    const mediaId = await instagramService.publishCarousel(
-      instagram_account_id,
-      items,
-      caption || '',
-      access_token
-    );
+    // Pubblica carousel in background
+    const job = publishJobService.submit('carousel', instagram_account_id, async onProgress => {
+      await preflightMedia(carouselMediaToValidate(carouselItems), 'carousel');
 
-    res.status(200).json({
-      success: true,
-      media_id: mediaId,
-      message: 'Carousel pubblicato con successo',
-      instagram_url: `https://www.instagram.com/p/${mediaId}/`
-    });
+      const mediaId = await instagramService.publishCarousel(
+        instagram_account_id,
+        carouselItems,
+        captionCheck.caption,
+        access_token,
+        onProgress
+      );
+
+      const { permalink, shortcode } = await lookupPermalink(mediaId, access_token);
+      return { media_id: mediaId, instagram_url: permalink, permalink, shortcode };
+    }, callback.url);
+
+    acceptPublishJob(req, res, job, 'Pubblicazione carousel avviata', { caption: toCaptionSummary(captionCheck) });
 
   } catch (error) {
     console.error('❌ Errore pubblicazione carousel:', error);
@@ -325,6 +505,97 @@ export const publishCarousel = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * POST /api/v1/instagram/auth/publish/validate
+ * Solo controlli pre-flight, senza pubblicare
+ * Body: type (image, video, story, carousel) + image_url / video_url / items
+ */
+export const validatePublishMedia = async (req: Request, res: Response) => {
+  try {
+    const { type, items } = req.body;
+    const image_url = typeof req.body.image_url === 'string' ? req.body.image_url : undefined;
+    const video_url = typeof req.body.video_url === 'string' ? req.body.video_url : undefined;
+    let media: MediaToValidate[];
+    let target: MediaTarget;
+
+    switch (type) {
+      case 'image':
+        media = image_url ? [{ field: 'image_url', url: image_url, kind: 'image' }] : [];
+        target = 'feed';
+        break;
+
+      case 'video':
+        media = video_url ? [{ field: 'video_url', url: video_url, kind: 'video' }] : [];
+        target = 'reels';
+        break;
+
+      case 'story':
+        media = video_url
+          ? [{ field: 'video_url', url: video_url, kind: 'video' }]
+          : image_url ? [{ field: 'image_url', url: image_url, kind: 'image' }] : [];
+        target = 'story';
+        break;
+
+      case 'carousel': {
+        if (items === undefined) {
+          media = [];
+        } else {
+          // Struttura degli elementi prima di leggerne gli URL
+          const itemsCheck = validateCarouselItems(items);
+
+          if (!itemsCheck.valid || !itemsCheck.options) {
+            return res.status(400).json({
+              error: 'items non valido',
+              message: itemsCheck.errors[0],
+              details: itemsCheck.errors
+            });
+          }
+
+          media = carouselMediaToValidate(itemsCheck.options);
+        }
+        target = 'carousel';
+        break;
+      }
+
+      default:
+        return res.status(400).json({ error: 'type deve essere uno tra: image, video, story, carousel' });
+    }
+
+    if (media.length === 0) {
+      return res.status(400).json({
+        error: 'Parametri mancanti',
+        required: type === 'carousel' ? ['items'] : type === 'video' ? ['video_url'] : ['image_url o video_url']
+      });
+    }
+
+    const result = await validateMedia(media, target);
+
+    res.status(200).json({ type, target, ...result });
+
+  } catch (error) {
+    console.error('❌ Errore validazione media:', error);
+
+    res.status(500).json({
+      error: 'Errore durante la validazione dei media',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+/**
+ * GET /api/v1/instagram/auth/publish/jobs/:id
+ * Stato di un job di pubblicazione
+ */
+export const getPublishJob = (req: Request, res: Response) => {
+  const job = publishJobService.get(req.params['id'] as string);
+
+  if (!job) {
+    return res.status(404).json({ error: 'Job di pubblicazione non trovato' });
+  }
+
+  res.status(200).json(toPublicPublishJob(job));
+};
+
 // ============================================
 // UTILITY CONTROLLERS
 // ============================================
@@ -350,11 +621,15 @@ export const healthCheck = (req: Request, res: Response) => {
  */
 export const refreshToken = async (req: Request, res: Response) => {
   try {
-    const { access_token } = req.body;
+    const access_token: string | undefined = res.locals.accessToken;
+    // Solo un token letto dal vault è legato con certezza al suo account
+    // (body o query: lo stesso id usato dal middleware per leggerlo)
+    const fromVault = res.locals.tokenSource === 'vault';
+    const instagram_account_id: string | undefined = res.locals.accountId;
 
     if (!access_token) {
       return res.status(400).json({
-        error: 'access_token richiesto'
+        error: 'access_token o instagram_account_id richiesto'
       });
     }
 
@@ -366,9 +641,20 @@ export const refreshToken = async (req: Request, res: Response) => {
       Date.now() + refreshed.expires_in * 1000
     ).toISOString();
 
+    // Il vault deve restare allineato al token più recente. Un token esplicito
+    // non viene mai salvato: potrebbe appartenere a un altro account
+    if (fromVault && instagram_account_id) {
+      await tokenVaultService.save({
+        instagram_account_id,
+        access_token: refreshed.access_token,
+        expires_at: expiresAt
+      });
+    }
+
     res.status(200).json({
       success: true,
-      access_token: refreshed.access_token,
+      // Token dal vault: resta lato server
+      ...(!fromVault && { access_token: refreshed.access_token }),
       token_type: refreshed.token_type,
       expires_in: refreshed.expires_in,
       expires_at: expiresAt,
@@ -391,7 +677,8 @@ export const refreshToken = async (req: Request, res: Response) => {
  */
 export const checkRateLimit = async (req: Request, res: Response) => {
   try {
-    const { instagram_account_id, access_token } = req.query;
+    const instagram_account_id = req.query['instagram_account_id'] as string | undefined;
+    const access_token: string | undefined = res.locals.accessToken;
 
     if (!instagram_account_id || !access_token) {
       return res.status(400).json({
@@ -401,8 +688,8 @@ export const checkRateLimit = async (req: Request, res: Response) => {
     }
 
     const rateLimit = await instagramService.checkPublishingLimit(
-      instagram_account_id as string,
-      access_token as string
+      instagram_account_id,
+      access_token
     );
 
     const remaining = rateLimit.config.quota_total - rateLimit.quota_usage;
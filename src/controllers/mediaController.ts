@@ -0,0 +1,66 @@
+import type { Request, Response } from 'express';
+import { instagramService } from '../services/instagramService.js';
+import { sendGraphError } from '../utils/graphErrors.js';
+import { readPageParams, toPaging } from '../utils/pagination.js';
+
+// ============================================
+// MEDIA LIBRARY CONTROLLERS
+// ============================================
+
+/**
+ * GET /api/v1/instagram/auth/media
+ * Elenca i post dell'account con paginazione
+ */
+export const listMedia = async (req: Request, res: Response) => {
+  try {
+    const instagram_account_id = req.query['instagram_account_id'] as string;
+    const access_token: string | undefined = res.locals.accessToken;
+
+    if (!instagram_account_id || !access_token) {
+      return res.status(400).json({
+        error: 'Parametri mancanti',
+        required: ['instagram_account_id', 'access_token']
+      });
+    }
+
+    const page = await instagramService.listMedia(instagram_account_id, access_token, readPageParams(req));
+
+    res.json({
+      data: page.data,
+      paging: toPaging(page)
+    });
+
+  } catch (error) {
+    console.error('[MEDIA] ❌ Error list:', error);
+    sendGraphError(res, error, 'Errore lista media');
+  }
+};
+
+/**
+ * GET /api/v1/instagram/auth/media/:id
+ * Dettaglio di un media (figli del carousel inclusi)
+ */
+export const getMedia = async (req: Request, res: Response) => {
+  try {
+    const mediaId = req.params['id'] as string;
+    const access_token: string | undefined = res.locals.accessToken;
+
+    if (!access_token) {
+      return res.status(400).json({
+        error: 'Parametri mancanti',
+        required: ['access_token']
+      });
+    }
+
+    const media = await instagramService.getMedia(mediaId, access_token);
+
+    res.json({
+      ...media,
+      children: media.children?.data || []
+    });
+
+  } catch (error) {
+    console.error('[MEDIA] ❌ Error get:', error);
+    sendGraphError(res, error, 'Errore lettura media');
+  }
+};
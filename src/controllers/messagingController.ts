@@ -0,0 +1,243 @@
+import type { Request, Response } from 'express';
+import { instagramService, type SenderAction } from '../services/instagramService.js';
+import { sendGraphError } from '../utils/graphErrors.js';
+import { toGraphMessage, validateOutboundMessage } from '../utils/outboundMessage.js';
+import { normalizeGraphMessage } from '../utils/messageNormalizer.js';
+import { readPageParams, toPaging } from '../utils/pagination.js';
+
+// ============================================
+// MESSAGING CONTROLLERS (chiamati da IVOT backend)
+// ============================================
+
+/**
+ * POST /api/v1/instagram/auth/send-message
+ * Invia messaggio Instagram: testo (con quick replies), attachment,
+ * condivisione post, generic/button template
+ */
+export const sendMessage = async (req: Request, res: Response) => {
+  try {
+    const { instagram_account_id, recipient_id, message } = req.body;
+    const access_token: string | undefined = res.locals.accessToken;
+
+    // Validazione parametri
+    if (!instagram_account_id || !recipient_id || !message || !access_token) {
+      return res.status(400).json({
+        error: 'Parametri mancanti',
+        required: ['instagram_account_id', 'recipient_id', 'message', 'access_token']
+      });
+    }
+
+    const validation = validateOutboundMessage(message);
+
+    if (!validation.valid || !validation.message) {
+      return res.status(400).json({
+        error: 'INVALID_MESSAGE',
+        message: 'Messaggio non valido',
+        details: validation.errors
+      });
+    }
+
+    console.log('[SEND_MESSAGE] Sending to Instagram:', {
+      account: instagram_account_id,
+      recipient: recipient_id,
+      type: validation.message.type
+    });
+
+    const result = await instagramService.sendMessage(
+      instagram_account_id,
+      { id: recipient_id },
+      toGraphMessage(validation.message),
+      access_token
+    );
+
+    console.log('[SEND_MESSAGE] ✅ Message sent:', result.message_id);
+
+    res.json({
+      success: true,
+      message_id: result.message_id,
+      recipient_id: result.recipient_id
+    });
+
+  } catch (error) {
+    console.error('[SEND_MESSAGE] ❌ Error:', error);
+    sendGraphError(res, error, 'Errore invio messaggio');
+  }
+};
+
+const SENDER_ACTIONS: SenderAction[] = ['typing_on', 'typing_off', 'mark_seen'];
+
+/**
+ * POST /api/v1/instagram/auth/sender-action
+ * Mostra "sta scrivendo…" o segna la conversazione come letta
+ */
+export const sendSenderAction = async (req: Request, res: Response) => {
+  try {
+    const { instagram_account_id, recipient_id, action } = req.body;
+    const access_token: string | undefined = res.locals.accessToken;
+
+    if (!instagram_account_id || !recipient_id || !action || !access_token) {
+      return res.status(400).json({
+        error: 'Parametri mancanti',
+        required: ['instagram_account_id', 'recipient_id', 'action', 'access_token']
+      });
+    }
+
+    if (!SENDER_ACTIONS.includes(action)) {
+      return res.status(400).json({
+        error: 'action non valida',
+        allowed: SENDER_ACTIONS
+      });
+    }
+
+    console.log('[SENDER_ACTION] Sending:', { account: instagram_account_id, recipient: recipient_id, action });
+
+    await instagramService.sendSenderAction(instagram_account_id, recipient_id, action, access_token);
+
+    res.json({ success: true, action });
+
+  } catch (error) {
+    console.error('[SENDER_ACTION] ❌ Error:', error);
+    sendGraphError(res, error, 'Errore invio sender action');
+  }
+};
+
+/**
+ * POST /api/v1/instagram/auth/react-message
+ * Aggiunge o rimuove una reaction a un messaggio dell'utente
+ */
+export const reactToMessage = async (req: Request, res: Response) => {
+  try {
+    const { instagram_account_id, recipient_id, message_id, reaction } = req.body;
+    const access_token: string | undefined = res.locals.accessToken;
+    const action = req.body.action || 'react';
+
+    if (!instagram_account_id || !recipient_id || !message_id || !access_token) {
+      return res.status(400).json({
+        error: 'Parametri mancanti',
+        required: ['instagram_account_id', 'recipient_id', 'message_id', 'access_token']
+      });
+    }
+
+    if (action !== 'react' && action !== 'unreact') {
+      return res.status(400).json({
+        error: 'action non valida',
+        allowed: ['react', 'unreact']
+      });
+    }
+
+    console.log('[REACTION] Sending:', { account: instagram_account_id, messageId: message_id, action });
+
+    await instagramService.setMessageReaction(
+      instagram_account_id,
+      recipient_id,
+      message_id,
+      action,
+      access_token,
+      reaction
+    );
+
+    res.json({ success: true, action, message_id });
+
+  } catch (error) {
+    console.error('[REACTION] ❌ Error:', error);
+    sendGraphError(res, error, 'Errore reaction messaggio');
+  }
+};
+
+// ============================================
+// CONVERSATIONS CONTROLLERS (backfill storico)
+// ============================================
+
+/**
+ * GET /api/v1/instagram/auth/conversations
+ * Elenca le conversazioni dell'account
+ */
+export const listConversations = async (req: Request, res: Response) => {
+  try {
+    const instagram_account_id = req.query['instagram_account_id'] as string;
+    const access_token: string | undefined = res.locals.accessToken;
+
+    if (!instagram_account_id || !access_token) {
+      return res.status(400).json({
+        error: 'Parametri mancanti',
+        required: ['instagram_account_id', 'access_token']
+      });
+    }
+
+    const page = await instagramService.listConversations(instagram_account_id, access_token, readPageParams(req));
+
+    res.json({
+      data: page.data.map(conversation => ({
+        id: conversation.id,
+        // Stesso conversation_id di webhook e messaggi: IGSID dell'interlocutore
+        conversation_id: conversation.participants?.data.find(participant => participant.id !== instagram_account_id)?.id || null,
+        updated_time: conversation.updated_time,
+        participants: conversation.participants?.data || []
+      })),
+      paging: toPaging(page)
+    });
+
+  } catch (error) {
+    console.error('[CONVERSATIONS] ❌ Error:', error);
+    sendGraphError(res, error, 'Errore lista conversazioni');
+  }
+};
+
+/**
+ * GET /api/v1/instagram/auth/conversations/:id/messages
+ * Messaggi di una conversazione, normalizzati come IvotMessagePayload
+ */
+export const listConversationMessages = async (req: Request, res: Response) => {
+  try {
+    const conversationId = req.params['id'] as string;
+    const instagram_account_id = req.query['instagram_account_id'] as string;
+    const access_token: string | undefined = res.locals.accessToken;
+
+    if (!instagram_account_id || !access_token) {
+      return res.status(400).json({
+        error: 'Parametri mancanti',
+        required: ['instagram_account_id', 'access_token']
+      });
+    }
+
+    const page = await instagramService.listConversationMessages(conversationId, access_token, readPageParams(req));
+
+    res.json({
+      // ID Graph della conversazione; nei messaggi conversation_id è l'IGSID dell'interlocutore
+      graph_conversation_id: conversationId,
+      data: page.data.map(message => normalizeGraphMessage(instagram_account_id, message)),
+      paging: toPaging(page)
+    });
+
+  } catch (error) {
+    console.error('[CONVERSATIONS] ❌ Error:', error);
+    sendGraphError(res, error, 'Errore lista messaggi');
+  }
+};
+
+/**
+ * GET /api/v1/instagram/auth/messages/:id
+ * Singolo messaggio, normalizzato come IvotMessagePayload
+ */
+export const getMessage = async (req: Request, res: Response) => {
+  try {
+    const messageId = req.params['id'] as string;
+    const instagram_account_id = req.query['instagram_account_id'] as string;
+    const access_token: string | undefined = res.locals.accessToken;
+
+    if (!instagram_account_id || !access_token) {
+      return res.status(400).json({
+        error: 'Parametri mancanti',
+        required: ['instagram_account_id', 'access_token']
+      });
+    }
+
+    const message = await instagramService.getMessage(messageId, access_token);
+
+    res.json(normalizeGraphMessage(instagram_account_id, message));
+
+  } catch (error) {
+    console.error('[MESSAGES] ❌ Error:', error);
+    sendGraphError(res, error, 'Errore lettura messaggio');
+  }
+};
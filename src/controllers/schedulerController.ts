@@ -0,0 +1,156 @@
+import type { Request, Response } from 'express';
+import {
+  schedulerService,
+  toPublicScheduledPost,
+  validateScheduledPost,
+  type ScheduledPostInput
+} from '../services/schedulerService.js';
+
+// ============================================
+// SCHEDULED PUBLISHING CONTROLLERS
+// ============================================
+
+/**
+ * POST /api/v1/instagram/auth/schedules
+ * Programma un post (image, reel, carousel) per `publish_at`
+ */
+export const createSchedule = (req: Request, res: Response) => {
+  try {
+    const input: ScheduledPostInput = {
+      instagram_account_id: req.body.instagram_account_id,
+      access_token: req.body.access_token,
+      type: req.body.type,
+      publish_at: req.body.publish_at,
+      caption: req.body.caption,
+      image_url: req.body.image_url,
+      video_url: req.body.video_url,
+      items: req.body.items,
+      location_id: req.body.location_id,
+      cover_url: req.body.cover_url,
+      share_to_feed: req.body.share_to_feed,
+      thumb_offset: req.body.thumb_offset,
+      audio_name: req.body.audio_name,
+      collaborators: req.body.collaborators,
+      user_tags: req.body.user_tags,
+      trial_params: req.body.trial_params,
+      alt_text: req.body.alt_text
+    };
+
+    const errors = validateScheduledPost(input);
+
+    if (errors.length > 0) {
+      return res.status(400).json({
+        error: 'INVALID_SCHEDULE',
+        message: 'Post programmato non valido',
+        details: errors
+      });
+    }
+
+    const post = schedulerService.create(input);
+
+    res.status(201).json({
+      success: true,
+      schedule_id: post.id,
+      schedule: toPublicScheduledPost(post)
+    });
+
+  } catch (error) {
+    console.error('❌ Errore creazione post programmato:', error);
+
+    res.status(500).json({
+      error: 'Errore durante la programmazione del post',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+/**
+ * GET /api/v1/instagram/auth/schedules
+ * Elenca i post programmati (?instagram_account_id=&status=)
+ */
+export const listSchedules = (req: Request, res: Response) => {
+  const schedules = schedulerService.list({
+    instagram_account_id: req.query['instagram_account_id'] as string | undefined,
+    status: req.query['status'] as string | undefined
+  });
+
+  res.json({
+    count: schedules.length,
+    schedules: schedules.map(toPublicScheduledPost)
+  });
+};
+
+/**
+ * GET /api/v1/instagram/auth/schedules/:id
+ * Dettaglio di un post programmato
+ */
+export const getSchedule = (req: Request, res: Response) => {
+  const post = schedulerService.get(req.params['id'] as string);
+
+  if (!post) {
+    return res.status(404).json({ error: 'Post programmato non trovato' });
+  }
+
+  res.json(toPublicScheduledPost(post));
+};
+
+/**
+ * PATCH /api/v1/instagram/auth/schedules/:id
+ * Modifica un post finché non è stato pubblicato
+ */
+export const updateSchedule = (req: Request, res: Response) => {
+  const post = schedulerService.get(req.params['id'] as string);
+
+  if (!post) {
+    return res.status(404).json({ error: 'Post programmato non trovato' });
+  }
+
+  if (post.status !== 'scheduled') {
+    return res.status(409).json({
+      error: 'SCHEDULE_NOT_EDITABLE',
+      message: `Il post non è più modificabile (stato: ${post.status})`
+    });
+  }
+
+  const errors = schedulerService.update(post, req.body || {});
+
+  if (errors.length > 0) {
+    return res.status(400).json({
+      error: 'INVALID_SCHEDULE',
+      message: 'Post programmato non valido',
+      details: errors
+    });
+  }
+
+  res.json({
+    success: true,
+    schedule: toPublicScheduledPost(post)
+  });
+};
+
+/**
+ * DELETE /api/v1/instagram/auth/schedules/:id
+ * Annulla un post non ancora pubblicato
+ */
+export const cancelSchedule = (req: Request, res: Response) => {
+  const post = schedulerService.get(req.params['id'] as string);
+
+  if (!post) {
+    return res.status(404).json({ error: 'Post programmato non trovato' });
+  }
+
+  if (post.status !== 'scheduled') {
+    return res.status(409).json({
+      error: 'SCHEDULE_NOT_CANCELLABLE',
+      message: `Il post non è più annullabile (stato: ${post.status})`
+    });
+  }
+
+  schedulerService.cancel(post);
+
+  res.json({
+    success: true,
+    schedule_id: post.id,
+    status: post.status
+  });
+};
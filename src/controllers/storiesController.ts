@@ -0,0 +1,82 @@
+import type { Request, Response } from 'express';
+import { instagramService } from '../services/instagramService.js';
+import { publishJobService } from '../services/publishJobService.js';
+import { acceptPublishJob, readCallbackUrl } from '../utils/publishJobResponse.js';
+import { preflightMedia } from '../utils/mediaValidator.js';
+
+// Le storie restano visibili 24 ore dalla pubblicazione
+const STORY_LIFETIME_MS = 24 * 60 * 60 * 1000;
+
+// ============================================
+// STORIES CONTROLLERS
+// ============================================
+
+/**
+ * POST /api/v1/instagram/auth/publish/story
+ * Pubblica una storia (image_url oppure video_url)
+ */
+export const publishStory = async (req: Request, res: Response) => {
+  try {
+    const { instagram_account_id, image_url, video_url } = req.body;
+    const access_token: string | undefined = res.locals.accessToken;
+
+    if (!instagram_account_id || !access_token || (!image_url && !video_url)) {
+      return res.status(400).json({
+        error: 'Parametri mancanti',
+        required: ['instagram_account_id', 'access_token', 'image_url o video_url']
+      });
+    }
+
+    if (image_url && video_url) {
+      return res.status(400).json({
+        error: 'Specificare solo uno tra image_url e video_url'
+      });
+    }
+
+    const callback = readCallbackUrl(req);
+
+    if (!callback.valid) {
+      return res.status(400).json({ error: 'callback_url non valido', message: callback.reason });
+    }
+
+    console.log('📱 Publishing story to Instagram account:', instagram_account_id);
+
+    const job = publishJobService.submit('story', instagram_account_id, async onProgress => {
+      // Controlli sul media prima di consumare un container
+      await preflightMedia(
+        [video_url ? { field: 'video_url', url: video_url, kind: 'video' } : { field: 'image_url', url: image_url, kind: 'image' }],
+        'story'
+      );
+
+      const storyId = await instagramService.publishStory(
+        instagram_account_id,
+        { image_url, video_url },
+        access_token,
+        onProgress
+      );
+
+      // Scadenza calcolata dal timestamp di pubblicazione (fallback: ora)
+      const media = await instagramService.getMedia(storyId, access_token).catch(() => null);
+      const publishedAt = media?.timestamp ? Date.parse(media.timestamp) : Date.now();
+
+      return {
+        media_id: storyId,
+        story_id: storyId,
+        media_type: video_url ? 'VIDEO' : 'IMAGE',
+        published_at: new Date(publishedAt).toISOString(),
+        expires_at: new Date(publishedAt + STORY_LIFETIME_MS).toISOString(),
+        permalink: media?.permalink || null
+      };
+    }, callback.url);
+
+    acceptPublishJob(req, res, job, 'Pubblicazione storia avviata');
+
+  } catch (error) {
+    console.error('❌ Error publishing story:', error);
+
+    res.status(500).json({
+      error: 'Errore durante la pubblicazione della storia',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
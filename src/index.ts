@@ -3,6 +3,9 @@ import express from 'express';
 import cookieParser from 'cookie-parser';
 import cors from 'cors';
 import router from './routes/instagramRoutes.js';
+import { outboxService } from './services/outboxService.js';
+import { schedulerService } from './services/schedulerService.js';
+import { tokenRefreshService } from './services/tokenRefreshService.js';
 
 const app = express();
 const PORT = process.env.PORT || 3000;
@@ -22,7 +25,7 @@ const allowedOrigins = [
 app.use(cors({
   origin: allowedOrigins,
   credentials: true,
-  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+  methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
   allowedHeaders: ['Content-Type', 'Authorization', 'X-Hub-Signature-256'],
 }));
 
@@ -75,13 +78,22 @@ app.get('/', (req, res) => {
       health: '/health',
       oauth_start: '/api/v1/instagram/auth/url',
       oauth_callback: '/api/v1/instagram/auth/callback',
+      oauth_exchange: '/api/v1/instagram/auth/exchange (POST)',
       webhooks_verify: '/api/v1/instagram/auth/webhooks (GET)',
       webhooks_receive: '/api/v1/instagram/auth/webhooks (POST)',
       publish_image: '/api/v1/instagram/auth/publish/image (POST)',
       publish_video: '/api/v1/instagram/auth/publish/video (POST)',
       publish_carousel: '/api/v1/instagram/auth/publish/carousel (POST)',
+      publish_story: '/api/v1/instagram/auth/publish/story (POST)',
+      publish_validate: '/api/v1/instagram/auth/publish/validate (POST)',
+      publish_job: '/api/v1/instagram/auth/publish/jobs/:id (GET)',
+      caption_lint: '/api/v1/instagram/auth/captions/lint (POST)',
       refresh_token: '/api/v1/instagram/auth/refresh-token (POST)',
-      rate_limit: '/api/v1/instagram/auth/rate-limit (GET)'
+      rate_limit: '/api/v1/instagram/auth/rate-limit (GET)',
+      outbox: '/api/v1/instagram/auth/admin/outbox (GET)',
+      dead_letters: '/api/v1/instagram/auth/admin/outbox/dead-letters (GET)',
+      token_vault: '/api/v1/instagram/auth/admin/token-vault (GET)',
+      schedules: '/api/v1/instagram/auth/schedules (GET, POST)'
     },
     documentation: 'https://github.com/your-repo/ivot-instagram-service'
   });
@@ -105,7 +117,8 @@ app.use((req, res) => {
       '/api/v1/instagram/auth/webhooks',
       '/api/v1/instagram/auth/publish/image',
       '/api/v1/instagram/auth/publish/video',
-      '/api/v1/instagram/auth/publish/carousel'
+      '/api/v1/instagram/auth/publish/carousel',
+      '/api/v1/instagram/auth/publish/story'
     ]
   });
 });
@@ -138,6 +151,9 @@ app.use((err: Error, req: express.Request, res: express.Response, next: express.
 
 process.on('SIGTERM', () => {
   console.log('🛑 SIGTERM received, closing server gracefully...');
+  outboxService.stop();
+  schedulerService.stop();
+  tokenRefreshService.stop();
   server.close(() => {
     console.log('✅ Server closed');
     process.exit(0);
@@ -146,6 +162,9 @@ process.on('SIGTERM', () => {
 
 process.on('SIGINT', () => {
   console.log('🛑 SIGINT received, closing server gracefully...');
+  outboxService.stop();
+  schedulerService.stop();
+  tokenRefreshService.stop();
   server.close(() => {
     console.log('✅ Server closed');
     process.exit(0);
@@ -184,24 +203,43 @@ const server = app.listen(PORT, () => {
   console.log('   GET  /health');
   console.log('   GET  /api/v1/instagram/auth/url');
   console.log('   GET  /api/v1/instagram/auth/callback');
+  console.log('   POST /api/v1/instagram/auth/exchange');
   console.log('   GET  /api/v1/instagram/auth/webhooks');
   console.log('   POST /api/v1/instagram/auth/webhooks');
   console.log('   POST /api/v1/instagram/auth/publish/image');
   console.log('   POST /api/v1/instagram/auth/publish/video');
   console.log('   POST /api/v1/instagram/auth/publish/carousel');
+  console.log('   POST /api/v1/instagram/auth/publish/story');
+  console.log('   POST /api/v1/instagram/auth/publish/validate');
+  console.log('   GET  /api/v1/instagram/auth/publish/jobs/:id');
+  console.log('   POST /api/v1/instagram/auth/captions/lint');
   console.log('   POST /api/v1/instagram/auth/refresh-token');
   console.log('   GET  /api/v1/instagram/auth/rate-limit');
+  console.log('   GET  /api/v1/instagram/auth/admin/outbox');
+  console.log('   GET  /api/v1/instagram/auth/admin/outbox/dead-letters');
+  console.log('   POST /api/v1/instagram/auth/schedules');
   console.log('');
   console.log('✅ Ready to handle requests');
   console.log('');
 
+  // Avvia consegna eventi verso IVOT (riprende anche la coda salvata)
+  outboxService.start();
+
+  // Avvia worker dei post programmati
+  schedulerService.start();
+
+  // Avvia refresh automatico dei token nel vault
+  tokenRefreshService.start();
+
   // Valida configurazione
   const requiredEnvVars = [
     'INSTAGRAM_APP_ID',
     'INSTAGRAM_APP_SECRET',
     'INSTAGRAM_REDIRECT_URI',
     'STATE_SECRET_KEY',
-    'VERIFY_TOKEN'
+    'VERIFY_TOKEN',
+    'INTERNAL_API_KEY',
+    'TOKEN_VAULT_KEYS' // senza vault servono access_token espliciti (deprecati)
   ];
 
   const missing = requiredEnvVars.filter(key => !process.env[key]);
@@ -4,7 +4,10 @@ export const verifyInternalApiKey = (req: Request, res: Response, next: NextFunc
   const apiKey = req.headers['x-api-key'];
 
   if (!apiKey || apiKey !== process.env.INTERNAL_API_KEY) {
-    return res.status(401).json({ error: 'Accesso non autorizzato.' });
+    return res.status(401).json({
+      error: 'Accesso non autorizzato.',
+      message: 'Header x-api-key mancante o non valido (INTERNAL_API_KEY)'
+    });
   }
 
   next();
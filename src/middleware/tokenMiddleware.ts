@@ -0,0 +1,78 @@
+import type { Request, Response, NextFunction } from 'express';
+import { tokenVaultService } from '../services/tokenVaultService.js';
+import { removeUploadedFile } from '../utils/localMedia.js';
+
+// access_token esplicito: DEPRECATO (il token resta in IVOT e nei log delle richieste).
+// ALLOW_EXPLICIT_ACCESS_TOKEN=false lo rifiuta e obbliga all'uso del vault
+const ALLOW_EXPLICIT_TOKENS = process.env.ALLOW_EXPLICIT_ACCESS_TOKEN !== 'false';
+
+/**
+ * Risolve l'access token della richiesta in res.locals.accessToken
+ * (res.locals.tokenSource = 'explicit' | 'vault'; con il vault anche
+ * res.locals.accountId, l'account a cui il token appartiene):
+ * - dal vault tramite instagram_account_id; in questo caso serve la
+ *   chiave interna (x-api-key), altrimenti chiunque conosca l'id
+ *   dell'account potrebbe usarne il token
+ * - access_token esplicito (body o query), deprecato
+ */
+export const resolveAccessToken = async (req: Request, res: Response, next: NextFunction) => {
+  const explicitToken = req.body?.access_token || req.query['access_token'];
+
+  const reject = async (status: number, body: Record<string, string>) => {
+    await removeUploadedFile(req.file?.path);
+    return res.status(status).json(body);
+  };
+
+  if (explicitToken) {
+    if (!ALLOW_EXPLICIT_TOKENS) {
+      return reject(400, {
+        error: 'EXPLICIT_TOKEN_NOT_ALLOWED',
+        message: 'access_token esplicito disabilitato: usare instagram_account_id (token dal vault)'
+      });
+    }
+
+    console.warn('[TOKEN_VAULT] ⚠️ access_token esplicito (deprecato):', `${req.method} ${req.baseUrl}${req.path}`);
+    res.setHeader('Deprecation', 'true');
+    res.setHeader('Warning', '299 - "access_token esplicito deprecato: usare instagram_account_id"');
+
+    res.locals.accessToken = explicitToken;
+    res.locals.tokenSource = 'explicit';
+    return next();
+  }
+
+  const accountId = (req.body?.instagram_account_id || req.query['instagram_account_id']) as string | undefined;
+
+  // Nessun modo di risolvere il token: ci pensa la validazione del controller
+  if (!accountId) return next();
+
+  if (!process.env.INTERNAL_API_KEY || req.headers['x-api-key'] !== process.env.INTERNAL_API_KEY) {
+    return reject(401, { error: 'Accesso non autorizzato.' });
+  }
+
+  if (!tokenVaultService.isEnabled()) {
+    return reject(503, {
+      error: 'TOKEN_VAULT_DISABLED',
+      message: 'Token vault non configurato (TOKEN_VAULT_KEYS): serve access_token esplicito'
+    });
+  }
+
+  try {
+    const token = await tokenVaultService.getToken(accountId);
+
+    if (!token) {
+      return reject(401, {
+        error: 'TOKEN_NOT_FOUND',
+        message: 'Nessun token salvato per questo account: è necessario ricollegare Instagram'
+      });
+    }
+
+    res.locals.accessToken = token;
+    res.locals.tokenSource = 'vault';
+    res.locals.accountId = accountId;
+    next();
+
+  } catch (error) {
+    console.error('[TOKEN_VAULT] ❌ Errore lettura token:', { account: accountId, error });
+    return reject(500, { error: 'TOKEN_VAULT_ERROR', message: 'Impossibile leggere il token dal vault' });
+  }
+};
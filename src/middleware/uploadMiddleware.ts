@@ -0,0 +1,64 @@
+import type { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import os from 'os';
+import path from 'path';
+import { MEDIA_LIMITS } from '../utils/mediaValidator.js';
+
+const UPLOAD_DIR = process.env.UPLOAD_TMP_DIR || path.join(os.tmpdir(), 'ivot-instagram-uploads');
+// Default: peso massimo di un Reel (i controlli pre-flight verificano il resto)
+const MAX_FILE_SIZE = Number(process.env.UPLOAD_MAX_FILE_SIZE) || MEDIA_LIMITS.VIDEO.reels.maxBytes;
+
+const upload = multer({
+  dest: UPLOAD_DIR,
+  limits: { fileSize: MAX_FILE_SIZE, files: 1 },
+  fileFilter: (req, file, cb) => cb(null, file.mimetype.startsWith('video/'))
+});
+
+// Nei form multipart i campi arrivano come stringhe
+const BOOLEAN_FIELDS = ['share_to_feed'];
+const NUMBER_FIELDS = ['thumb_offset'];
+const JSON_FIELDS = ['collaborators', 'user_tags', 'trial_params'];
+
+function coerceMultipartFields(body: Record<string, any>): void {
+  for (const field of BOOLEAN_FIELDS) {
+    if (body[field] === 'true' || body[field] === 'false') body[field] = body[field] === 'true';
+  }
+
+  for (const field of NUMBER_FIELDS) {
+    if (typeof body[field] === 'string' && body[field].trim() !== '') body[field] = Number(body[field]);
+  }
+
+  for (const field of JSON_FIELDS) {
+    if (typeof body[field] !== 'string') continue;
+    try {
+      body[field] = JSON.parse(body[field]);
+    } catch {
+      // Lasciato com'è: lo segnala la validazione
+    }
+  }
+}
+
+/**
+ * Upload multipart opzionale del video (campo "video") su file temporaneo.
+ * Le richieste JSON passano invariate. Va montato dopo verifyInternalApiKey:
+ * il file viene scritto su disco prima di qualsiasi altro controllo
+ */
+export const uploadVideo = (req: Request, res: Response, next: NextFunction) => {
+  upload.single('video')(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      const tooLarge = error.code === 'LIMIT_FILE_SIZE';
+      return res.status(tooLarge ? 413 : 400).json({
+        error: tooLarge ? 'FILE_TOO_LARGE' : 'INVALID_UPLOAD',
+        message: tooLarge ? `Il file supera il limite di ${MAX_FILE_SIZE} byte` : error.message
+      });
+    }
+
+    if (error) return next(error);
+
+    if (req.is('multipart/form-data')) {
+      coerceMultipartFields(req.body);
+    }
+
+    next();
+  });
+};
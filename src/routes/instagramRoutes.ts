@@ -6,15 +6,56 @@ import type { Request, Response } from 'express';
 import { 
   startAuth, 
   handleCallback,
+  exchangeAuthCode,
   publishImage, 
   publishVideo,
   publishCarousel,
+  getPublishJob,
+  validatePublishMedia,
   refreshToken,
   checkRateLimit
 } from '../controllers/instagramController.js';
+import {
+  getOutboxStats,
+  listDeadLetters,
+  getDeadLetter,
+  redriveDeadLetter,
+  redriveAllDeadLetters,
+  listVaultTokens,
+  rotateVaultKeys,
+  removeVaultToken
+} from '../controllers/adminController.js';
+import {
+  sendMessage,
+  sendSenderAction,
+  reactToMessage,
+  listConversations,
+  listConversationMessages,
+  getMessage
+} from '../controllers/messagingController.js';
+import {
+  replyToComment,
+  hideComment,
+  unhideComment,
+  deleteComment,
+  sendPrivateReply
+} from '../controllers/commentsController.js';
+import { publishStory } from '../controllers/storiesController.js';
+import { lintCaption } from '../controllers/captionsController.js';
+import { listMedia, getMedia } from '../controllers/mediaController.js';
+import { getAccountInsights, getMediaInsights } from '../controllers/insightsController.js';
+import {
+  createSchedule,
+  listSchedules,
+  getSchedule,
+  updateSchedule,
+  cancelSchedule
+} from '../controllers/schedulerController.js';
 import { processMessagingEvent, processChangeEvent } from '../utils/webhookProcessors.js';
-import axios from 'axios';
+import { isDuplicateEvent, messagingEventKey, changeEventKey } from '../utils/webhookDedup.js';
 import { verifyInternalApiKey } from '../middleware/authMiddleware.js';
+import { uploadVideo } from '../middleware/uploadMiddleware.js';
+import { resolveAccessToken } from '../middleware/tokenMiddleware.js';
 
 const router = Router();
 
@@ -23,108 +64,85 @@ const router = Router();
 // ============================================
 router.get('/url', startAuth);
 router.get('/callback', handleCallback);
+router.post('/exchange', verifyInternalApiKey, exchangeAuthCode);
 
 // ============================================
-// PUBLISHING ROUTES
+// PUBLISHING ROUTES (chiamato da IVOT backend)
+// access_token esplicito, oppure solo instagram_account_id (token dal vault).
+// Richiedono x-api-key (INTERNAL_API_KEY) come le altre route chiamate da IVOT:
+// callback_url e media URL fanno partire richieste dal servizio (SSRF).
+// Breaking change per i chiamanti che non inviavano la chiave (ora 401)
 // ============================================
-router.post('/publish/image', publishImage);
-router.post('/publish/video', publishVideo);
-router.post('/publish/carousel', publishCarousel);
-router.post('/refresh-token', refreshToken);
-router.get('/rate-limit', checkRateLimit);
+router.post('/publish/image', verifyInternalApiKey, resolveAccessToken, publishImage);
+router.post('/publish/video', verifyInternalApiKey, uploadVideo, resolveAccessToken, publishVideo);
+router.post('/publish/carousel', verifyInternalApiKey, resolveAccessToken, publishCarousel);
+router.post('/publish/story', verifyInternalApiKey, resolveAccessToken, publishStory);
+router.post('/publish/validate', verifyInternalApiKey, validatePublishMedia);
+router.get('/publish/jobs/:id', verifyInternalApiKey, getPublishJob);
+router.post('/captions/lint', lintCaption);
+router.post('/refresh-token', resolveAccessToken, refreshToken);
+router.get('/rate-limit', resolveAccessToken, checkRateLimit);
 
 // ============================================
-// SEND MESSAGE (chiamato da IVOT backend)
+// SCHEDULED PUBLISHING (chiamato da IVOT backend)
 // ============================================
+router.post('/schedules', verifyInternalApiKey, createSchedule);
+router.get('/schedules', verifyInternalApiKey, listSchedules);
+router.get('/schedules/:id', verifyInternalApiKey, getSchedule);
+router.patch('/schedules/:id', verifyInternalApiKey, updateSchedule);
+router.delete('/schedules/:id', verifyInternalApiKey, cancelSchedule);
 
-/**
- * POST /api/v1/instagram/send-message
- * Invia messaggio Instagram (chiamato da IVOT backend)
- */
-router.post('/send-message', verifyInternalApiKey, async (req: Request, res: Response) => {
-  try {
-    const { instagram_account_id, recipient_id, message, access_token } = req.body;
-
-    // Validazione parametri
-    if (!instagram_account_id || !recipient_id || !message || !access_token) {
-      return res.status(400).json({
-        error: 'Parametri mancanti',
-        required: ['instagram_account_id', 'recipient_id', 'message', 'access_token']
-      });
-    }
+// ============================================
+// MEDIA LIBRARY (chiamato da IVOT backend)
+// ============================================
+router.get('/media', verifyInternalApiKey, resolveAccessToken, listMedia);
+router.get('/media/:id', verifyInternalApiKey, resolveAccessToken, getMedia);
 
-    console.log('[SEND_MESSAGE] Sending to Instagram:', {
-      account: instagram_account_id,
-      recipient: recipient_id,
-      messageLength: message.length
-    });
+// ============================================
+// INSIGHTS (chiamato da IVOT backend)
+// ============================================
+router.get('/insights/account', verifyInternalApiKey, resolveAccessToken, getAccountInsights);
+router.get('/insights/media/:id', verifyInternalApiKey, resolveAccessToken, getMediaInsights);
 
-    // Invia messaggio
-    const response = await axios.post(
-      `https://graph.instagram.com/v23.0/${instagram_account_id}/messages`,
-      {
-        recipient: { id: recipient_id },
-        message: { text: message }
-      },
-      {
-        headers: {
-          'Authorization': `Bearer ${access_token}`,
-          'Content-Type': 'application/json'
-        },
-        timeout: 10000
-      }
-    );
+// ============================================
+// SEND MESSAGE (chiamato da IVOT backend)
+// ============================================
 
-    console.log('[SEND_MESSAGE] ✅ Message sent:', response.data.message_id);
+router.post('/send-message', verifyInternalApiKey, resolveAccessToken, sendMessage);
+router.post('/sender-action', verifyInternalApiKey, resolveAccessToken, sendSenderAction);
+router.post('/react-message', verifyInternalApiKey, resolveAccessToken, reactToMessage);
 
-    res.json({
-      success: true,
-      message_id: response.data.message_id
-    });
+// ============================================
+// CONVERSATIONS (chiamato da IVOT backend)
+// ============================================
+router.get('/conversations', verifyInternalApiKey, resolveAccessToken, listConversations);
+router.get('/conversations/:id/messages', verifyInternalApiKey, resolveAccessToken, listConversationMessages);
+router.get('/messages/:id', verifyInternalApiKey, resolveAccessToken, getMessage);
 
-  } catch (error) {
-    console.error('[SEND_MESSAGE] ❌ Error:', error);
-    
-    if (axios.isAxiosError(error)) {
-      const fbError = error.response?.data?.error;
-      
-      if (fbError?.code === 190) {
-        return res.status(401).json({
-          error: 'TOKEN_EXPIRED',
-          message: 'Access token scaduto o invalidato',
-          facebook_error: fbError
-        });
-      }
-      
-      if (fbError?.code === 4 || fbError?.code === 32) {
-        return res.status(429).json({
-          error: 'RATE_LIMIT',
-          message: 'Rate limit raggiunto',
-          facebook_error: fbError
-        });
-      }
+// ============================================
+// COMMENT MODERATION (chiamato da IVOT backend)
+// ============================================
+router.post('/comments/:id/replies', verifyInternalApiKey, resolveAccessToken, replyToComment);
+router.post('/comments/:id/hide', verifyInternalApiKey, resolveAccessToken, hideComment);
+router.post('/comments/:id/unhide', verifyInternalApiKey, resolveAccessToken, unhideComment);
+router.delete('/comments/:id', verifyInternalApiKey, resolveAccessToken, deleteComment);
+router.post('/comments/:id/private-reply', verifyInternalApiKey, resolveAccessToken, sendPrivateReply);
 
-      if (fbError?.code === 200) {
-        return res.status(403).json({
-          error: 'PERMISSION_DENIED',
-          message: 'Permessi insufficienti',
-          facebook_error: fbError
-        });
-      }
+// ============================================
+// ADMIN: OUTBOX & DEAD-LETTER (chiamato da IVOT backend)
+// ============================================
+router.get('/admin/outbox', verifyInternalApiKey, getOutboxStats);
+router.get('/admin/outbox/dead-letters', verifyInternalApiKey, listDeadLetters);
+router.post('/admin/outbox/dead-letters/redrive', verifyInternalApiKey, redriveAllDeadLetters);
+router.get('/admin/outbox/dead-letters/:id', verifyInternalApiKey, getDeadLetter);
+router.post('/admin/outbox/dead-letters/:id/redrive', verifyInternalApiKey, redriveDeadLetter);
 
-      return res.status(error.response?.status || 500).json({
-        error: 'INSTAGRAM_API_ERROR',
-        message: fbError?.message || 'Errore invio messaggio',
-        facebook_error: fbError
-      });
-    }
-    
-    res.status(500).json({ 
-      error: 'INTERNAL_ERROR',
-      message: 'Errore interno del microservizio' 
-    });
-  }
-});
+// ============================================
+// ADMIN: TOKEN VAULT (chiamato da IVOT backend)
+// ============================================
+router.get('/admin/token-vault', verifyInternalApiKey, listVaultTokens);
+router.post('/admin/token-vault/rotate', verifyInternalApiKey, rotateVaultKeys);
+router.delete('/admin/token-vault/:accountId', verifyInternalApiKey, removeVaultToken);
 
 // ============================================
 // DEAUTHORIZATION & DATA DELETION
@@ -284,6 +302,13 @@ router.post('/webhooks', async (req: Request, res: Response) => {
         console.log(`[WEBHOOK] 🔄 Found ${item.changes.length} change event(s)`);
         
         for (const change of item.changes) {
+          const dedupKey = changeEventKey(itemId, webhookTime, change);
+
+          if (await isDuplicateEvent(dedupKey)) {
+            console.log('[WEBHOOK] ♻️ Duplicate change event skipped:', dedupKey);
+            continue;
+          }
+
           await processChangeEvent(change, webhookTime);
         }
       }
@@ -299,6 +324,13 @@ router.post('/webhooks', async (req: Request, res: Response) => {
             hasMessage: !!msg.message,
             hasReaction: !!msg.reaction
           });
+
+          const dedupKey = messagingEventKey(itemId, webhookTime, msg);
+
+          if (await isDuplicateEvent(dedupKey)) {
+            console.log('[WEBHOOK] ♻️ Duplicate messaging event skipped:', dedupKey);
+            continue;
+          }
           
           await processMessagingEvent(itemId, msg, webhookTime);
         }
@@ -0,0 +1,74 @@
+// ============================================
+// AUTH HANDOFF SERVICE
+// Codici monouso e a breve scadenza con cui IVOT backend
+// recupera i dati OAuth: il token non passa più nel redirect
+// ============================================
+
+import crypto from 'crypto';
+
+const MAX_TTL_MS = 2 * 60 * 1000; // 2 minuti
+const HANDOFF_TTL_MS = Math.min(Number(process.env.AUTH_HANDOFF_TTL_MS) || 60 * 1000, MAX_TTL_MS);
+
+export interface AuthHandoffData {
+  access_token: string;
+  platform_user_id: string;
+  user_id: string;
+  username: string;
+  account_type?: string;
+  expires_in: number;
+  expires_at: string;
+}
+
+interface HandoffEntry {
+  data: AuthHandoffData;
+  expiresAt: number;
+}
+
+class AuthHandoffService {
+  // Solo in memoria: i token in chiaro non vengono mai scritti su disco.
+  // Le chiavi sono hash dei codici, non i codici stessi
+  private readonly entries = new Map<string, HandoffEntry>();
+
+  /**
+   * Registra i dati OAuth e restituisce il codice opaco da passare nel redirect
+   */
+  create(data: AuthHandoffData): { code: string; expiresAt: string } {
+    const now = Date.now();
+    this.prune(now);
+
+    const code = crypto.randomBytes(32).toString('base64url');
+    const expiresAt = now + HANDOFF_TTL_MS;
+
+    this.entries.set(hashCode(code), { data, expiresAt });
+
+    return { code, expiresAt: new Date(expiresAt).toISOString() };
+  }
+
+  /**
+   * Scambia il codice per i dati OAuth; il codice è consumato al primo utilizzo
+   * @returns undefined se il codice è sconosciuto, già usato o scaduto
+   */
+  consume(code: string): AuthHandoffData | undefined {
+    const now = Date.now();
+    this.prune(now);
+
+    const key = hashCode(code);
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    this.entries.delete(key);
+    return entry.data;
+  }
+
+  private prune(now: number): void {
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) this.entries.delete(key);
+    }
+  }
+}
+
+function hashCode(code: string): string {
+  return crypto.createHash('sha256').update(code).digest('hex');
+}
+
+export const authHandoffService = new AuthHandoffService();
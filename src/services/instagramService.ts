@@ -1,20 +1,33 @@
 import axios from 'axios';
+import fs from 'fs';
+import { tokenVaultService } from './tokenVaultService.js';
+import { getGraphError } from '../utils/graphErrors.js';
+import { groupByMetricType, MEDIA_METRIC_BREAKDOWNS, type AccountInsightsQuery } from '../utils/insightsMetrics.js';
+import type { CarouselItem, ImageOptions, ReelsOptions, UserTag } from '../utils/publishOptions.js';
 
 const INSTAGRAM_OAUTH_URL = 'https://www.instagram.com/oauth';
 const INSTAGRAM_API_TOKEN_URL = 'https://api.instagram.com/oauth/access_token';
 const GRAPH_INSTAGRAM_BASE_URL = 'https://graph.instagram.com';
 const GRAPH_BASE = process.env.GRAPH_INSTAGRAM_BASE_URL || 'https://graph.instagram.com';
 const API_VERSION = process.env.GRAPH_INSTAGRAM_VERSION || 'v23.0';
+const GRAPH_MEDIA_FIELDS = 'id,caption,media_type,media_product_type,media_url,thumbnail_url,permalink,shortcode,timestamp,like_count,comments_count';
+const GRAPH_MESSAGE_FIELDS = 'id,created_time,from,to,message,attachments,shares,story,is_unsupported';
+const CAROUSEL_CHILD_CONCURRENCY = Number(process.env.CAROUSEL_CHILD_CONCURRENCY) || 3;
+// Host upload resumable (configurabile per test con un server locale)
+const UPLOAD_BASE = process.env.INSTAGRAM_UPLOAD_BASE_URL || 'https://rupload.facebook.com/ig-api-upload';
+const UPLOAD_CHUNK_SIZE = Number(process.env.INSTAGRAM_UPLOAD_CHUNK_SIZE) || 8 * 1024 * 1024; // 8 MB
+const UPLOAD_MAX_RETRIES = Number(process.env.INSTAGRAM_UPLOAD_MAX_RETRIES) || 5;
 
-interface CreateContainerParams {
-  location_id?: string;
-  cover_url?: string;
+interface CreateContainerParams extends Omit<ReelsOptions, 'user_tags'> {
   image_url?: string;
   video_url?: string;
   caption?: string;
-  media_type?: 'IMAGE' | 'REELS' | 'CAROUSEL';
+  media_type?: 'IMAGE' | 'VIDEO' | 'REELS' | 'CAROUSEL' | 'STORIES';
+  upload_type?: 'resumable'; // video caricato dopo, senza video_url
   is_carousel_item?: boolean;
   children?: string[]; // Per carousel
+  user_tags?: UserTag[];
+  alt_text?: string;
   access_token: string;
   instagram_account_id: string;
 }
@@ -25,9 +38,58 @@ interface PublishResponse {
 
 interface ContainerStatus {
   status_code: 'EXPIRED' | 'ERROR' | 'FINISHED' | 'IN_PROGRESS' | 'PUBLISHED';
+  status?: string; // Dettaglio (es: "Error: ..." con codice errore)
   error_message?: string;
 }
 
+export type PublishStage = 'container_created' | 'uploading' | 'processing' | 'finished' | 'published';
+
+export interface PublishProgress {
+  stage: PublishStage;
+  container_id?: string;
+  container_status?: string;
+  bytes_uploaded?: number; // solo upload resumable
+  total_bytes?: number;
+}
+
+/**
+ * Callback di avanzamento dei flow di pubblicazione (usata dai publish job)
+ */
+export type PublishProgressHandler = (progress: PublishProgress) => void;
+
+/**
+ * Errore su un singolo elemento del carousel (index = posizione in items)
+ */
+export class CarouselItemError extends Error {
+  constructor(readonly index: number, message: string, options?: ErrorOptions) {
+    super(`items[${index}]: ${message}`, options);
+    this.name = 'CarouselItemError';
+  }
+}
+
+/**
+ * Esegue fn su ogni elemento con al massimo `limit` chiamate in parallelo
+ * (risultati nello stesso ordine degli elementi)
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
 interface TokenResponse {
   access_token: string;
   user_id: number;
@@ -47,6 +109,65 @@ interface UserInfo {
   media_count?: number;
 }
 
+// id = utente (IGSID), comment_id = risposta privata a un commento
+export type MessageRecipient = { id: string } | { comment_id: string };
+
+export type SenderAction = 'typing_on' | 'typing_off' | 'mark_seen';
+
+export interface SendMessageResponse {
+  recipient_id: string;
+  message_id: string;
+}
+
+export interface PageParams {
+  limit?: number;
+  after?: string;
+}
+
+export interface GraphPage<T> {
+  data: T[];
+  paging?: {
+    cursors?: { before?: string; after?: string };
+    next?: string;
+  };
+}
+
+export interface GraphMedia {
+  id: string;
+  caption?: string;
+  media_type: 'IMAGE' | 'VIDEO' | 'CAROUSEL_ALBUM';
+  media_product_type?: 'FEED' | 'REELS' | 'STORY' | 'AD';
+  media_url?: string;
+  thumbnail_url?: string;
+  permalink?: string;
+  shortcode?: string;
+  timestamp?: string;
+  like_count?: number;
+  comments_count?: number;
+  children?: { data: Array<Pick<GraphMedia, 'id' | 'media_type' | 'media_url' | 'thumbnail_url' | 'permalink' | 'timestamp'>> };
+}
+
+export interface GraphConversation {
+  id: string;
+  updated_time: string;
+  participants?: { data: Array<{ id: string; username?: string }> };
+}
+
+export interface GraphMessage {
+  id: string;
+  created_time: string;
+  from?: { id: string; username?: string };
+  to?: { data: Array<{ id: string; username?: string }> };
+  message?: string;
+  attachments?: { data: any[] };
+  shares?: { data: Array<{ link?: string; name?: string }> };
+  story?: {
+    mention?: { id?: string; link?: string };
+    reply_to?: { id?: string; link?: string };
+  };
+  is_unsupported?: boolean;
+}
+
 export interface InstagramAuthData {
   accessToken: string;
   userId: string;
@@ -101,6 +222,19 @@ class InstagramService {
     const expiresAt = new Date(
       Date.now() + longLivedToken.expires_in * 1000
     ).toISOString();
+
+    // Step 4: Salva il token nel vault (le route potranno usare solo instagram_account_id)
+    try {
+      await tokenVaultService.save({
+        instagram_account_id: String(userInfo.user_id),
+        access_token: longLivedToken.access_token,
+        expires_at: expiresAt,
+        username: userInfo.username,
+        account_type: userInfo.account_type
+      });
+    } catch (error) {
+      console.error('❌ Impossibile salvare il token nel vault:', error);
+    }
     
     return {
       accessToken: longLivedToken.access_token,
@@ -222,7 +356,7 @@ class InstagramService {
     try {
       const response = await axios.post(endpoint, null, {
         params: {
-          ...mediaParams,
+          ...this.serializeContainerParams(mediaParams),
           access_token,
         }
       });
@@ -239,6 +373,30 @@ class InstagramService {
     }
   }
 
+  /**
+   * Parametri del container nel formato atteso dalla Graph API:
+   * children come lista separata da virgole, array/oggetti
+   * (user_tags, collaborators, trial_params) come stringa JSON
+   * (axios serializzerebbe gli array come user_tags[]=...)
+   */
+  private serializeContainerParams(params: Omit<CreateContainerParams, 'access_token' | 'instagram_account_id'>): Record<string, string | number | boolean> {
+    const serialized: Record<string, string | number | boolean> = {};
+
+    for (const [key, value] of Object.entries(params)) {
+      if (value === undefined || value === null) continue;
+
+      if (key === 'children' && Array.isArray(value)) {
+        serialized[key] = value.join(',');
+      } else if (typeof value === 'object') {
+        serialized[key] = JSON.stringify(value);
+      } else {
+        serialized[key] = value;
+      }
+    }
+
+    return serialized;
+  }
+
   /**
    * Step 2: Pubblica il container
    */
@@ -283,7 +441,7 @@ class InstagramService {
     try {
       const response = await axios.get(endpoint, {
         params: {
-          fields: 'status_code',
+          fields: 'status_code,status',
           access_token,
         }
       });
@@ -302,7 +460,8 @@ class InstagramService {
     container_id: string,
     access_token: string,
     maxAttempts: number = 10,
-    delayMs: number = 2000
+    delayMs: number = 2000,
+    onProgress?: PublishProgressHandler
   ): Promise<void> {
     for (let i = 0; i < maxAttempts; i++) {
       const status = await this.checkContainerStatus(container_id, access_token);
@@ -311,16 +470,19 @@ class InstagramService {
       
       if (status.status_code === 'FINISHED') {
         console.log('✅ Container pronto per pubblicazione');
+        onProgress?.({ stage: 'finished', container_id, container_status: status.status_code });
         return;
       }
       
       if (status.status_code === 'ERROR') {
-        throw new Error(`Container error: ${status.error_message || 'Unknown error'}`);
+        throw new Error(`Container error: ${status.error_message || status.status || 'Unknown error'}`);
       }
       
       if (status.status_code === 'EXPIRED') {
         throw new Error('Container scaduto (non pubblicato entro 24 ore)');
       }
+
+      onProgress?.({ stage: 'processing', container_id, container_status: status.status_code });
       
       // Aspetta prima del prossimo tentativo
       await new Promise(resolve => setTimeout(resolve, delayMs));
@@ -337,10 +499,8 @@ class InstagramService {
     image_url: string,
     caption: string,
     access_token: string,
-    options?: {
-      location_id?: string;
-      user_tags?: Array<{ username: string; x?: number; y?: number }>;
-    }
+    options?: ImageOptions,
+    onProgress?: PublishProgressHandler
   ): Promise<string> {
     console.log('🖼️ Publishing single image');
     
@@ -352,9 +512,10 @@ class InstagramService {
       access_token,
       ...options
     });
+    onProgress?.({ stage: 'container_created', container_id: containerId });
     
     // Step 2: Aspetta che sia pronto
-    await this.waitForContainerReady(containerId, access_token);
+    await this.waitForContainerReady(containerId, access_token, 10, 2000, onProgress);
     
     // Step 3: Pubblica
     const result = await this.publishMedia(
@@ -362,6 +523,7 @@ class InstagramService {
       containerId,
       access_token
     );
+    onProgress?.({ stage: 'published', container_id: containerId });
     
     return result.id;
   }
@@ -374,11 +536,10 @@ class InstagramService {
     video_url: string,
     caption: string,
     access_token: string,
-    options?: {
-      cover_url?: string;
+    options?: ReelsOptions & {
       media_type?: 'REELS';
-      location_id?: string;
-    }
+    },
+    onProgress?: PublishProgressHandler
   ): Promise<string> {
     console.log('🎥 Publishing video');
     
@@ -387,15 +548,15 @@ class InstagramService {
       instagram_account_id,
       video_url,
       caption,
+      ...options,
       media_type: options?.media_type || 'REELS',
-      cover_url: options?.cover_url,
-      location_id: options?.location_id,
       access_token,
     });
+    onProgress?.({ stage: 'container_created', container_id: containerId });
     
     // Step 2: Aspetta processing (video richiede più tempo)
     console.log('⏳ Video in processing, questo può richiedere alcuni minuti...');
-    await this.waitForContainerReady(containerId, access_token, 30, 5000);
+    await this.waitForContainerReady(containerId, access_token, 30, 5000, onProgress);
     
     // Step 3: Pubblica
     const result = await this.publishMedia(
@@ -403,18 +564,22 @@ class InstagramService {
       containerId,
       access_token
     );
+    onProgress?.({ stage: 'published', container_id: containerId });
     
     return result.id;
   }
 
   /**
    * Helper: Pubblica un carousel (post multipli)
+   * I container figli sono creati in parallelo (CAROUSEL_CHILD_CONCURRENCY);
+   * i figli video vanno attesi fino a FINISHED prima del container padre
    */
   async publishCarousel(
     instagram_account_id: string,
-    items: Array<{ image_url?: string; video_url?: string }>,
+    items: CarouselItem[],
     caption: string,
-    access_token: string
+    access_token: string,
+    onProgress?: PublishProgressHandler
   ): Promise<string> {
     console.log('🎠 Publishing carousel with', items.length, 'items');
     
@@ -423,22 +588,30 @@ class InstagramService {
     }
     
     // Step 1: Crea container per ogni item
-    const childrenIds: string[] = [];
-    
-    for (let i = 0; i < items.length; i++) {
-      const item = items[i];
-      console.log(`📦 Creating container ${i + 1}/${items.length}`);
-      
-      const childId = await this.createMediaContainer({
-        instagram_account_id,
-        image_url: item.image_url,
-        video_url: item.video_url,
-        is_carousel_item: true,
-        access_token,
-      });
-      
-      childrenIds.push(childId);
-    }
+    const childrenIds = await mapWithConcurrency(items, CAROUSEL_CHILD_CONCURRENCY, async (item, i) => {
+      const isVideo = Boolean(item.video_url);
+      console.log(`📦 Creating container ${i + 1}/${items.length} (${isVideo ? 'video' : 'image'})`);
+
+      try {
+        const childId = await this.createMediaContainer({
+          instagram_account_id,
+          ...(isVideo
+            ? { video_url: item.video_url, media_type: 'VIDEO' as const }
+            : { image_url: item.image_url, alt_text: item.alt_text }),
+          user_tags: item.user_tags,
+          is_carousel_item: true,
+          access_token,
+        });
+
+        if (isVideo) {
+          await this.waitForContainerReady(childId, access_token, 30, 5000);
+        }
+
+        return childId;
+      } catch (error) {
+        throw new CarouselItemError(i, error instanceof Error ? error.message : 'Unknown error', { cause: error });
+      }
+    });
     
     // Step 2: Crea carousel container
     console.log('📦 Creating carousel container');
@@ -449,9 +622,10 @@ class InstagramService {
       children: childrenIds,
       access_token,
     });
+    onProgress?.({ stage: 'container_created', container_id: carouselId });
     
     // Step 3: Aspetta che sia pronto
-    await this.waitForContainerReady(carouselId, access_token);
+    await this.waitForContainerReady(carouselId, access_token, 10, 2000, onProgress);
     
     // Step 4: Pubblica
     const result = await this.publishMedia(
@@ -459,10 +633,487 @@ class InstagramService {
       carouselId,
       access_token
     );
+    onProgress?.({ stage: 'published', container_id: carouselId });
+    
+    return result.id;
+  }
+
+  /**
+   * Helper: Pubblica una storia (immagine o video, flow completo)
+   * Le storie non supportano caption
+   */
+  async publishStory(
+    instagram_account_id: string,
+    media: { image_url?: string; video_url?: string },
+    access_token: string,
+    onProgress?: PublishProgressHandler
+  ): Promise<string> {
+    const isVideo = Boolean(media.video_url);
+    console.log(isVideo ? '📱 Publishing video story' : '📱 Publishing image story');
+    
+    // Step 1: Crea container
+    const containerId = await this.createMediaContainer({
+      instagram_account_id,
+      media_type: 'STORIES',
+      ...(isVideo ? { video_url: media.video_url } : { image_url: media.image_url }),
+      access_token,
+    });
+    onProgress?.({ stage: 'container_created', container_id: containerId });
+    
+    // Step 2: Aspetta che sia pronto (i video richiedono più tempo)
+    if (isVideo) {
+      await this.waitForContainerReady(containerId, access_token, 30, 5000, onProgress);
+    } else {
+      await this.waitForContainerReady(containerId, access_token, 10, 2000, onProgress);
+    }
+    
+    // Step 3: Pubblica
+    const result = await this.publishMedia(
+      instagram_account_id,
+      containerId,
+      access_token
+    );
+    onProgress?.({ stage: 'published', container_id: containerId });
     
     return result.id;
   }
 
+  // ==========================================
+  // RESUMABLE UPLOAD
+  // ==========================================
+
+  /**
+   * Helper: Pubblica un Reel da file locale (upload_type=resumable)
+   * Il file è inviato a chunk all'host di upload, poi flow standard
+   */
+  async publishVideoFromFile(
+    instagram_account_id: string,
+    file_path: string,
+    caption: string,
+    access_token: string,
+    options?: ReelsOptions,
+    onProgress?: PublishProgressHandler
+  ): Promise<string> {
+    console.log('🎥 Publishing video from local file (resumable upload)');
+    
+    // Step 1: Crea container senza video_url
+    const containerId = await this.createMediaContainer({
+      instagram_account_id,
+      caption,
+      ...options,
+      media_type: 'REELS',
+      upload_type: 'resumable',
+      access_token,
+    });
+    onProgress?.({ stage: 'container_created', container_id: containerId });
+    
+    // Step 2: Upload del file a chunk
+    await this.uploadVideoFile(containerId, file_path, access_token, onProgress);
+    
+    // Step 3: Aspetta processing
+    console.log('⏳ Video in processing, questo può richiedere alcuni minuti...');
+    await this.waitForContainerReady(containerId, access_token, 30, 5000, onProgress);
+    
+    // Step 4: Pubblica
+    const result = await this.publishMedia(
+      instagram_account_id,
+      containerId,
+      access_token
+    );
+    onProgress?.({ stage: 'published', container_id: containerId });
+    
+    return result.id;
+  }
+
+  /**
+   * Invia il file all'host di upload a chunk (header offset/file_size).
+   * Dopo un chunk fallito si chiede all'host l'offset effettivamente
+   * ricevuto e si riprende da lì, con backoff, senza ricominciare da capo
+   */
+  async uploadVideoFile(
+    container_id: string,
+    file_path: string,
+    access_token: string,
+    onProgress?: PublishProgressHandler
+  ): Promise<void> {
+    const { size } = await fs.promises.stat(file_path);
+    const endpoint = `${UPLOAD_BASE}/${API_VERSION}/${container_id}`;
+
+    if (size === 0) {
+      throw new Error('File video vuoto');
+    }
+
+    console.log('⬆️ Upload video:', { containerId: container_id, bytes: size, chunkSize: UPLOAD_CHUNK_SIZE });
+
+    let offset = 0;
+    let attempt = 0;
+
+    while (offset < size) {
+      const end = Math.min(offset + UPLOAD_CHUNK_SIZE, size);
+
+      try {
+        await axios.post(endpoint, fs.createReadStream(file_path, { start: offset, end: end - 1 }), {
+          headers: {
+            Authorization: `OAuth ${access_token}`,
+            offset: String(offset),
+            file_size: String(size),
+            'Content-Type': 'application/octet-stream',
+            'Content-Length': String(end - offset)
+          },
+          maxBodyLength: Infinity,
+          timeout: 120000
+        });
+
+        offset = end;
+        attempt = 0;
+        onProgress?.({ stage: 'uploading', container_id, bytes_uploaded: offset, total_bytes: size });
+
+      } catch (error) {
+        attempt++;
+        const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+        const retryable = status === undefined || status >= 500 || status === 408 || status === 429;
+
+        if (!retryable || attempt >= UPLOAD_MAX_RETRIES) {
+          this.handleInstagramError(error, `Errore upload video (offset ${offset})`);
+          throw error;
+        }
+
+        const delay = 1000 * 2 ** (attempt - 1);
+        console.warn(`⚠️ Chunk fallito (offset ${offset}, tentativo ${attempt}/${UPLOAD_MAX_RETRIES}), riprovo tra ${delay / 1000}s`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+
+        // Il chunk può essere arrivato in parte (o tutto): conta l'offset dell'host
+        offset = await this.getUploadOffset(endpoint, access_token, size, offset);
+      }
+    }
+
+    console.log('✅ Upload video completato:', container_id);
+  }
+
+  /**
+   * Offset già ricevuto dall'host di upload per il container
+   * @param fallback offset locale, se l'host non risponde
+   */
+  private async getUploadOffset(endpoint: string, access_token: string, size: number, fallback: number): Promise<number> {
+    try {
+      const response = await axios.get<{ offset?: number | string }>(endpoint, {
+        headers: { Authorization: `OAuth ${access_token}` },
+        timeout: 10000
+      });
+
+      const offset = Number(response.data?.offset);
+
+      if (Number.isInteger(offset) && offset >= 0 && offset <= size) {
+        if (offset !== fallback) console.log(`🔁 Ripresa upload dall'offset ricevuto dall'host: ${offset}`);
+        return offset;
+      }
+    } catch (error) {
+      console.warn('⚠️ Impossibile leggere l\'offset di upload, riprendo dall\'offset locale:', fallback);
+    }
+
+    return fallback;
+  }
+
+  // ==========================================
+  // MEDIA LIBRARY
+  // ==========================================
+
+  /**
+   * Elenca i media dell'account (dal più recente)
+   */
+  async listMedia(
+    instagram_account_id: string,
+    access_token: string,
+    page: PageParams = {}
+  ): Promise<GraphPage<GraphMedia>> {
+    return this.graphRequest<GraphPage<GraphMedia>>(
+      'get',
+      `${instagram_account_id}/media`,
+      {
+        fields: GRAPH_MEDIA_FIELDS,
+        limit: page.limit,
+        after: page.after,
+        access_token
+      },
+      'Errore lista media'
+    );
+  }
+
+  /**
+   * Singolo media con i figli del carousel
+   */
+  async getMedia(media_id: string, access_token: string): Promise<GraphMedia> {
+    return this.graphRequest<GraphMedia>(
+      'get',
+      media_id,
+      {
+        fields: `${GRAPH_MEDIA_FIELDS},children{id,media_type,media_url,thumbnail_url,permalink,timestamp}`,
+        access_token
+      },
+      'Errore lettura media'
+    );
+  }
+
+  /**
+   * Permalink e shortcode reali di un media pubblicato
+   * (il media ID NON è lo shortcode usato negli URL)
+   */
+  async getMediaPermalink(
+    media_id: string,
+    access_token: string
+  ): Promise<{ permalink: string | null; shortcode: string | null }> {
+    const media = await this.graphRequest<Pick<GraphMedia, 'permalink' | 'shortcode'>>(
+      'get',
+      media_id,
+      { fields: 'permalink,shortcode', access_token },
+      'Errore lettura permalink'
+    );
+
+    const permalink = media.permalink || null;
+    const shortcode = media.shortcode || permalink?.match(/instagram\.com\/(?:p|reel|tv)\/([^/?#]+)/)?.[1] || null;
+
+    return { permalink, shortcode };
+  }
+
+  // ==========================================
+  // MESSAGING
+  // ==========================================
+
+  /**
+   * Invia un messaggio Direct (testo, attachment, template, ...)
+   */
+  async sendMessage(
+    instagram_account_id: string,
+    recipient: MessageRecipient,
+    message: Record<string, any>,
+    access_token: string
+  ): Promise<SendMessageResponse> {
+    return this.postToMessages<SendMessageResponse>(
+      instagram_account_id,
+      { recipient, message },
+      access_token,
+      'Errore invio messaggio'
+    );
+  }
+
+  /**
+   * Invia una sender action (typing_on, typing_off, mark_seen)
+   */
+  async sendSenderAction(
+    instagram_account_id: string,
+    recipient_id: string,
+    action: SenderAction,
+    access_token: string
+  ): Promise<{ recipient_id: string }> {
+    return this.postToMessages(
+      instagram_account_id,
+      { recipient: { id: recipient_id }, sender_action: action },
+      access_token,
+      'Errore invio sender action'
+    );
+  }
+
+  /**
+   * Aggiunge (react) o rimuove (unreact) una reaction a un messaggio
+   */
+  async setMessageReaction(
+    instagram_account_id: string,
+    recipient_id: string,
+    message_id: string,
+    action: 'react' | 'unreact',
+    access_token: string,
+    reaction: string = 'love'
+  ): Promise<{ recipient_id: string }> {
+    return this.postToMessages(
+      instagram_account_id,
+      {
+        recipient: { id: recipient_id },
+        sender_action: action,
+        payload: action === 'react' ? { message_id, reaction } : { message_id }
+      },
+      access_token,
+      'Errore reaction messaggio'
+    );
+  }
+
+  // ==========================================
+  // CONVERSATIONS
+  // ==========================================
+
+  /**
+   * Elenca le conversazioni dell'account (paginazione a cursore)
+   */
+  async listConversations(
+    instagram_account_id: string,
+    access_token: string,
+    page: PageParams = {}
+  ): Promise<GraphPage<GraphConversation>> {
+    return this.graphRequest<GraphPage<GraphConversation>>(
+      'get',
+      `${instagram_account_id}/conversations`,
+      {
+        platform: 'instagram',
+        fields: 'id,updated_time,participants',
+        limit: page.limit,
+        after: page.after,
+        access_token
+      },
+      'Errore lista conversazioni'
+    );
+  }
+
+  /**
+   * Messaggi di una conversazione (dal più recente)
+   */
+  async listConversationMessages(
+    conversation_id: string,
+    access_token: string,
+    page: PageParams = {}
+  ): Promise<GraphPage<GraphMessage>> {
+    return this.graphRequest<GraphPage<GraphMessage>>(
+      'get',
+      `${conversation_id}/messages`,
+      {
+        fields: GRAPH_MESSAGE_FIELDS,
+        limit: page.limit,
+        after: page.after,
+        access_token
+      },
+      'Errore lista messaggi'
+    );
+  }
+
+  /**
+   * Singolo messaggio per ID
+   */
+  async getMessage(message_id: string, access_token: string): Promise<GraphMessage> {
+    return this.graphRequest<GraphMessage>(
+      'get',
+      message_id,
+      { fields: GRAPH_MESSAGE_FIELDS, access_token },
+      'Errore lettura messaggio'
+    );
+  }
+
+  // ==========================================
+  // COMMENT MODERATION
+  // ==========================================
+
+  /**
+   * Account proprietario del media su cui si trova il commento
+   * (owner è restituito solo se il media appartiene all'utente del token)
+   */
+  async getCommentMediaOwner(comment_id: string, access_token: string): Promise<string | null> {
+    const comment = await this.graphRequest<{ id: string; media?: { id: string; owner?: { id: string } } }>(
+      'get',
+      comment_id,
+      { fields: 'id,media{id,owner}', access_token },
+      'Errore lettura commento'
+    );
+
+    return comment.media?.owner?.id ?? null;
+  }
+
+  /**
+   * Risponde pubblicamente a un commento
+   */
+  async replyToComment(
+    comment_id: string,
+    message: string,
+    access_token: string
+  ): Promise<{ id: string }> {
+    return this.graphRequest<{ id: string }>(
+      'post',
+      `${comment_id}/replies`,
+      { message, access_token },
+      'Errore risposta commento'
+    );
+  }
+
+  /**
+   * Nasconde (hide=true) o mostra (hide=false) un commento
+   */
+  async setCommentHidden(
+    comment_id: string,
+    hide: boolean,
+    access_token: string
+  ): Promise<{ success: boolean }> {
+    return this.graphRequest<{ success: boolean }>(
+      'post',
+      comment_id,
+      { hide, access_token },
+      hide ? 'Errore hide commento' : 'Errore unhide commento'
+    );
+  }
+
+  /**
+   * Elimina un commento
+   */
+  async deleteComment(comment_id: string, access_token: string): Promise<{ success: boolean }> {
+    return this.graphRequest<{ success: boolean }>(
+      'delete',
+      comment_id,
+      { access_token },
+      'Errore eliminazione commento'
+    );
+  }
+
+  // ==========================================
+  // GRAPH HELPERS
+  // ==========================================
+
+  /**
+   * POST su /{account}/messages
+   * Gli errori axios sono rilanciati così come sono: il chiamante
+   * li mappa su 401/429/403 in base al codice Graph
+   */
+  private async postToMessages<T>(
+    instagram_account_id: string,
+    body: Record<string, any>,
+    access_token: string,
+    context: string
+  ): Promise<T> {
+    const endpoint = `${GRAPH_BASE}/${API_VERSION}/${instagram_account_id}/messages`;
+
+    try {
+      const response = await axios.post<T>(endpoint, body, {
+        headers: {
+          'Authorization': `Bearer ${access_token}`,
+          'Content-Type': 'application/json'
+        },
+        timeout: 10000
+      });
+
+      return response.data;
+    } catch (error) {
+      console.error(`❌ ${context}:`, getGraphError(error) || error);
+      throw error;
+    }
+  }
+
+  /**
+   * Richiesta generica sulla Graph API (errori axios rilanciati come sono)
+   */
+  private async graphRequest<T>(
+    method: 'get' | 'post' | 'delete',
+    path: string,
+    params: Record<string, any>,
+    context: string
+  ): Promise<T> {
+    try {
+      const response = await axios.request<T>({
+        method,
+        url: `${GRAPH_BASE}/${API_VERSION}/${path}`,
+        params,
+        timeout: 10000
+      });
+      return response.data;
+    } catch (error) {
+      console.error(`❌ ${context}:`, getGraphError(error) || error);
+      throw error;
+    }
+  }
+
   // ==========================================
   // RATE LIMITING & INSIGHTS
   // ==========================================
@@ -497,6 +1148,69 @@ class InstagramService {
     }
   }
 
+  /**
+   * Insights account (reach, views, profile_views, follower_count, ...)
+   * Una richiesta per ogni metric_type, risultati uniti
+   */
+  async getAccountInsights(
+    instagram_account_id: string,
+    access_token: string,
+    query: AccountInsightsQuery
+  ): Promise<any[]> {
+    const groups = groupByMetricType(query.metrics);
+    const data: any[] = [];
+
+    for (const [metricType, metrics] of Object.entries(groups)) {
+      const response = await this.graphRequest<{ data: any[] }>(
+        'get',
+        `${instagram_account_id}/insights`,
+        {
+          metric: metrics.join(','),
+          period: query.period,
+          metric_type: metricType,
+          since: query.since,
+          until: query.until,
+          access_token
+        },
+        'Errore insights account'
+      );
+
+      data.push(...(response.data || []));
+    }
+
+    return data;
+  }
+
+  /**
+   * Insights di un singolo media (metriche già validate per il tipo)
+   */
+  async getMediaInsights(
+    media_id: string,
+    metrics: string[],
+    access_token: string
+  ): Promise<any[]> {
+    // Metriche con breakdown obbligatorio (es: navigation) in richieste separate
+    const plain = metrics.filter(metric => !MEDIA_METRIC_BREAKDOWNS[metric]);
+    const requests: Array<{ metric: string; breakdown?: string }> = metrics
+      .filter(metric => MEDIA_METRIC_BREAKDOWNS[metric])
+      .map(metric => ({ metric, breakdown: MEDIA_METRIC_BREAKDOWNS[metric] }));
+
+    if (plain.length > 0) {
+      requests.unshift({ metric: plain.join(',') });
+    }
+
+    const responses = await Promise.all(requests.map(params =>
+      this.graphRequest<{ data: any[] }>(
+        'get',
+        `${media_id}/insights`,
+        { ...params, access_token },
+        'Errore insights media'
+      )
+    ));
+
+    return responses.flatMap(response => response.data || []);
+  }
+
   // ==========================================
   // ERROR HANDLING
   // ==========================================
@@ -521,27 +1235,27 @@ class InstagramService {
       // Errori comuni
       if (status === 400) {
         if (data?.error?.code === 100) {
-          throw new Error('Parametri richiesta non validi');
+          throw new Error('Parametri richiesta non validi', { cause: error });
         }
         if (data?.error?.error_subcode === 2207026) {
-          throw new Error('Media URL non accessibile o formato non supportato');
+          throw new Error('Media URL non accessibile o formato non supportato', { cause: error });
         }
       }
       
       if (status === 401) {
-        throw new Error('Access token non valido o scaduto');
+        throw new Error('Access token non valido o scaduto', { cause: error });
       }
       
       if (status === 403) {
-        throw new Error('Permessi insufficienti per questa operazione');
+        throw new Error('Permessi insufficienti per questa operazione', { cause: error });
       }
       
       if (status === 429) {
-        throw new Error('Rate limit superato, riprova più tardi');
+        throw new Error('Rate limit superato, riprova più tardi', { cause: error });
       }
       
       if (status === 500) {
-        throw new Error('Errore interno di Instagram, riprova più tardi');
+        throw new Error('Errore interno di Instagram, riprova più tardi', { cause: error });
       }
     }
     
@@ -0,0 +1,231 @@
+// ============================================
+// OUTBOX SERVICE
+// Consegna durevole degli eventi verso IVOT backend
+// con retry (backoff esponenziale) e dead-letter queue
+// ============================================
+
+import axios from 'axios';
+import crypto from 'crypto';
+import { JsonFileStore } from '../utils/jsonFileStore.js';
+
+const INTERNAL_API_KEY = process.env.INTERNAL_API_KEY;
+const MAX_ATTEMPTS = Number(process.env.OUTBOX_MAX_ATTEMPTS) || 8;
+const BASE_DELAY_MS = Number(process.env.OUTBOX_BASE_DELAY_MS) || 5000;
+const MAX_DELAY_MS = Number(process.env.OUTBOX_MAX_DELAY_MS) || 15 * 60 * 1000;
+const POLL_INTERVAL_MS = Number(process.env.OUTBOX_POLL_INTERVAL_MS) || 5000;
+
+export interface OutboxRecord {
+  id: string;
+  event_type: string;
+  url: string;
+  payload: unknown;
+  // false per URL esterni (es: callback client): la chiave interna non va inviata
+  with_api_key?: boolean;
+  attempts: number;
+  next_attempt_at: number;
+  created_at: string;
+  last_attempt_at?: string;
+  last_error?: string;
+  last_status?: number;
+  dead_lettered_at?: string;
+}
+
+interface OutboxData {
+  pending: OutboxRecord[];
+  dead: OutboxRecord[];
+}
+
+class OutboxService {
+  private readonly store = new JsonFileStore<OutboxData>('outbox.json', () => ({ pending: [], dead: [] }));
+  private readonly data: OutboxData = this.store.read();
+  private timer?: NodeJS.Timeout;
+  private flushing = false;
+
+  /**
+   * Salva l'evento su disco e prova subito la consegna
+   */
+  enqueue(
+    eventType: string,
+    url: string,
+    payload: unknown,
+    options: { withApiKey?: boolean } = {}
+  ): OutboxRecord {
+    const record: OutboxRecord = {
+      id: crypto.randomUUID(),
+      event_type: eventType,
+      url,
+      payload,
+      with_api_key: options.withApiKey ?? true,
+      attempts: 0,
+      next_attempt_at: Date.now(),
+      created_at: new Date().toISOString()
+    };
+
+    this.data.pending.push(record);
+    this.persist();
+
+    console.log('[OUTBOX] 📥 Evento accodato:', { id: record.id, eventType });
+
+    void this.flush();
+    return record;
+  }
+
+  /**
+   * Avvia il worker che riprova periodicamente gli eventi in coda
+   */
+  start(): void {
+    if (this.timer) return;
+
+    console.log(`[OUTBOX] ▶️ Worker avviato (${this.data.pending.length} eventi in coda, ${this.data.dead.length} in dead-letter)`);
+
+    this.timer = setInterval(() => void this.flush(), POLL_INTERVAL_MS);
+    this.timer.unref();
+    void this.flush();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Consegna tutti gli eventi pronti (uno alla volta, in ordine)
+   */
+  async flush(): Promise<void> {
+    if (this.flushing) return;
+    this.flushing = true;
+
+    try {
+      // Include anche gli eventi accodati mentre il flush è in corso
+      const attempted = new Set<string>();
+      let record: OutboxRecord | undefined;
+
+      while ((record = this.data.pending.find(item => item.next_attempt_at <= Date.now() && !attempted.has(item.id)))) {
+        attempted.add(record.id);
+        await this.deliver(record);
+      }
+    } finally {
+      this.flushing = false;
+    }
+  }
+
+  stats(): { pending: number; dead: number; oldest_pending_at: string | null } {
+    return {
+      pending: this.data.pending.length,
+      dead: this.data.dead.length,
+      oldest_pending_at: this.data.pending[0]?.created_at || null
+    };
+  }
+
+  listDeadLetters(): OutboxRecord[] {
+    return [...this.data.dead];
+  }
+
+  getDeadLetter(id: string): OutboxRecord | undefined {
+    return this.data.dead.find(record => record.id === id);
+  }
+
+  /**
+   * Rimette in coda un evento dalla dead-letter (tentativi azzerati)
+   */
+  redrive(id: string): OutboxRecord | undefined {
+    const index = this.data.dead.findIndex(record => record.id === id);
+    if (index === -1) return undefined;
+
+    const [record] = this.data.dead.splice(index, 1);
+    record.attempts = 0;
+    record.next_attempt_at = Date.now();
+    delete record.dead_lettered_at;
+
+    this.data.pending.push(record);
+    this.persist();
+
+    console.log('[OUTBOX] 🔁 Redrive evento:', record.id);
+
+    void this.flush();
+    return record;
+  }
+
+  redriveAll(): number {
+    const ids = this.data.dead.map(record => record.id);
+    ids.forEach(id => this.redrive(id));
+    return ids.length;
+  }
+
+  private async deliver(record: OutboxRecord): Promise<void> {
+    record.attempts += 1;
+    record.last_attempt_at = new Date().toISOString();
+
+    try {
+      const response = await axios.post(record.url, record.payload, {
+        headers: {
+          ...(record.with_api_key !== false && { 'x-api-key': INTERNAL_API_KEY }),
+          'Content-Type': 'application/json'
+        },
+        timeout: 10000
+      });
+
+      this.data.pending = this.data.pending.filter(item => item.id !== record.id);
+      this.persist();
+
+      console.log('[OUTBOX] ✅ Consegnato:', {
+        id: record.id,
+        eventType: record.event_type,
+        status: response.status,
+        attempts: record.attempts
+      });
+
+    } catch (error) {
+      const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+      record.last_status = status;
+      record.last_error = error instanceof Error ? error.message : 'Unknown error';
+
+      // 4xx (tranne 408/429) = errore permanente, inutile riprovare
+      const permanent = status !== undefined && status >= 400 && status < 500 && status !== 408 && status !== 429;
+
+      if (permanent || record.attempts >= MAX_ATTEMPTS) {
+        this.moveToDeadLetter(record);
+        return;
+      }
+
+      const delay = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (record.attempts - 1));
+      record.next_attempt_at = Date.now() + delay;
+      this.persist();
+
+      console.warn('[OUTBOX] ⚠️ Consegna fallita, nuovo tentativo tra', Math.round(delay / 1000), 's:', {
+        id: record.id,
+        eventType: record.event_type,
+        attempt: `${record.attempts}/${MAX_ATTEMPTS}`,
+        status,
+        error: record.last_error
+      });
+    }
+  }
+
+  private moveToDeadLetter(record: OutboxRecord): void {
+    this.data.pending = this.data.pending.filter(item => item.id !== record.id);
+    record.dead_lettered_at = new Date().toISOString();
+    this.data.dead.push(record);
+    this.persist();
+
+    console.error('[OUTBOX] ☠️ Evento spostato in dead-letter:', {
+      id: record.id,
+      eventType: record.event_type,
+      attempts: record.attempts,
+      status: record.last_status,
+      error: record.last_error
+    });
+  }
+
+  private persist(): void {
+    try {
+      this.store.write(this.data);
+    } catch (error) {
+      console.error('[OUTBOX] ❌ Impossibile salvare la coda su disco:', error);
+    }
+  }
+}
+
+export const outboxService = new OutboxService();
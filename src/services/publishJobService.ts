@@ -0,0 +1,197 @@
+// ============================================
+// PUBLISH JOB SERVICE
+// Pubblicazioni asincrone: la richiesta HTTP ritorna subito (202),
+// lo stato si legge con GET /publish/jobs/:id
+// ============================================
+
+import crypto from 'crypto';
+import { JsonFileStore } from '../utils/jsonFileStore.js';
+import { outboxService } from './outboxService.js';
+import { CarouselItemError, type PublishProgress, type PublishProgressHandler } from './instagramService.js';
+import { getGraphError } from '../utils/graphErrors.js';
+import { MediaValidationError, type MediaViolation } from '../utils/mediaValidator.js';
+
+const RETENTION_MS = Number(process.env.PUBLISH_JOB_RETENTION_MS) || 24 * 60 * 60 * 1000; // 24 ore
+
+export type PublishJobKind = 'image' | 'video' | 'carousel' | 'story';
+export type PublishJobStage = 'queued' | PublishProgress['stage'] | 'failed';
+
+export interface PublishJobResult {
+  media_id: string;
+  permalink?: string | null;
+  shortcode?: string | null;
+  [key: string]: unknown;
+}
+
+// Stessi codici delle risposte sincrone (190 → token, 4/32 → rate limit)
+export type PublishJobErrorCode =
+  | 'TOKEN_EXPIRED'
+  | 'RATE_LIMIT'
+  | 'MEDIA_VALIDATION_FAILED'
+  | 'INSTAGRAM_API_ERROR'
+  | 'PUBLISH_FAILED';
+
+export interface PublishJob {
+  id: string;
+  kind: PublishJobKind;
+  instagram_account_id: string;
+  stage: PublishJobStage;
+  container_id?: string;
+  container_status?: string;
+  bytes_uploaded?: number;
+  total_bytes?: number;
+  result?: PublishJobResult;
+  error?: string;
+  error_code?: PublishJobErrorCode;
+  failed_item_index?: number; // carousel: elemento che ha causato l'errore
+  violations?: MediaViolation[]; // pre-flight: media non conformi
+  callback_url?: string;
+  created_at: string;
+  updated_at: string;
+  completed_at?: string;
+}
+
+class PublishJobService {
+  private readonly store = new JsonFileStore<PublishJob[]>('publish-jobs.json', () => []);
+  private jobs: PublishJob[] = this.store.read();
+
+  constructor() {
+    // Job interrotti da un riavvio: il loro stato reale non è più noto
+    for (const job of this.jobs.filter(item => !item.completed_at)) {
+      job.stage = 'failed';
+      job.error = 'Job interrotto da un riavvio del servizio';
+      job.completed_at = new Date().toISOString();
+      job.updated_at = job.completed_at;
+    }
+    this.persist();
+  }
+
+  /**
+   * Crea il job e avvia la pubblicazione in background
+   * @param run Flow di pubblicazione: riceve la callback di avanzamento
+   */
+  submit(
+    kind: PublishJobKind,
+    instagram_account_id: string,
+    run: (onProgress: PublishProgressHandler) => Promise<PublishJobResult>,
+    callbackUrl?: string
+  ): PublishJob {
+    const now = new Date().toISOString();
+
+    const job: PublishJob = {
+      id: crypto.randomUUID(),
+      kind,
+      instagram_account_id,
+      stage: 'queued',
+      callback_url: callbackUrl,
+      created_at: now,
+      updated_at: now
+    };
+
+    this.jobs.push(job);
+    this.persist();
+
+    console.log('[PUBLISH_JOB] 📥 Job creato:', { id: job.id, kind });
+
+    void this.execute(job, run);
+    return job;
+  }
+
+  get(id: string): PublishJob | undefined {
+    return this.jobs.find(job => job.id === id);
+  }
+
+  private async execute(
+    job: PublishJob,
+    run: (onProgress: PublishProgressHandler) => Promise<PublishJobResult>
+  ): Promise<void> {
+    const onProgress: PublishProgressHandler = progress => {
+      job.stage = progress.stage;
+      job.container_id = progress.container_id || job.container_id;
+      job.container_status = progress.container_status || job.container_status;
+      job.bytes_uploaded = progress.bytes_uploaded ?? job.bytes_uploaded;
+      job.total_bytes = progress.total_bytes ?? job.total_bytes;
+      job.updated_at = new Date().toISOString();
+      this.persist();
+    };
+
+    try {
+      job.result = await run(onProgress);
+      job.stage = 'published';
+
+      console.log('[PUBLISH_JOB] ✅ Job completato:', { id: job.id, mediaId: job.result.media_id });
+
+    } catch (error) {
+      job.stage = 'failed';
+      job.error = error instanceof Error ? error.message : 'Unknown error';
+      job.error_code = toPublishJobErrorCode(error);
+
+      if (error instanceof CarouselItemError) {
+        job.failed_item_index = error.index;
+      }
+
+      if (error instanceof MediaValidationError) {
+        job.violations = error.result.violations;
+      }
+
+      console.error('[PUBLISH_JOB] ❌ Job fallito:', { id: job.id, error: job.error });
+    }
+
+    job.completed_at = new Date().toISOString();
+    job.updated_at = job.completed_at;
+    this.persist();
+
+    if (job.callback_url) {
+      // URL del client: consegna con retry, senza chiave interna
+      outboxService.enqueue('publish_job_result', job.callback_url, toPublicPublishJob(job), { withApiKey: false });
+    }
+  }
+
+  private persist(): void {
+    const cutoff = Date.now() - RETENTION_MS;
+    this.jobs = this.jobs.filter(job => !job.completed_at || Date.parse(job.completed_at) >= cutoff);
+
+    try {
+      this.store.write(this.jobs);
+    } catch (error) {
+      console.error('[PUBLISH_JOB] ❌ Impossibile salvare i job su disco:', error);
+    }
+  }
+}
+
+function toPublishJobErrorCode(error: unknown): PublishJobErrorCode {
+  if (error instanceof MediaValidationError) return 'MEDIA_VALIDATION_FAILED';
+
+  const fbError = getGraphError(error);
+
+  if (fbError?.code === 190) return 'TOKEN_EXPIRED';
+  if (fbError?.code === 4 || fbError?.code === 32) return 'RATE_LIMIT';
+  return fbError ? 'INSTAGRAM_API_ERROR' : 'PUBLISH_FAILED';
+}
+
+/**
+ * Vista pubblica del job
+ */
+export function toPublicPublishJob(job: PublishJob) {
+  return {
+    job_id: job.id,
+    kind: job.kind,
+    instagram_account_id: job.instagram_account_id,
+    stage: job.stage,
+    container_id: job.container_id || null,
+    container_status: job.container_status || null,
+    ...(job.total_bytes !== undefined && {
+      upload: { bytes_uploaded: job.bytes_uploaded ?? 0, total_bytes: job.total_bytes }
+    }),
+    result: job.result || null,
+    error: job.error || null,
+    error_code: job.error_code || null,
+    failed_item_index: job.failed_item_index ?? null,
+    ...(job.violations && { violations: job.violations }),
+    created_at: job.created_at,
+    updated_at: job.updated_at,
+    completed_at: job.completed_at || null
+  };
+}
+
+export const publishJobService = new PublishJobService();
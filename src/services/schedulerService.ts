@@ -0,0 +1,405 @@
+// ============================================
+// SCHEDULER SERVICE
+// Pubblicazione programmata (immagine, reel, carousel)
+// ============================================
+
+import crypto from 'crypto';
+import { instagramService } from './instagramService.js';
+import { JsonFileStore } from '../utils/jsonFileStore.js';
+import { IvotNotifier } from '../utils/ivotNotifier.js';
+import { normalizeCaption, validateCaption } from '../utils/caption.js';
+import { isValidUrl } from '../utils/validators.js';
+import { tokenVaultService, type SealedValue } from './tokenVaultService.js';
+import {
+  validateCarouselItems,
+  validateImageOptions,
+  validateReelsOptions,
+  type CarouselItem,
+  type ReelsOptions
+} from '../utils/publishOptions.js';
+
+const POLL_INTERVAL_MS = Number(process.env.SCHEDULER_POLL_INTERVAL_MS) || 30000;
+
+export type ScheduledPostType = 'image' | 'reel' | 'carousel';
+export type ScheduledPostStatus = 'scheduled' | 'publishing' | 'published' | 'failed' | 'cancelled';
+
+/**
+ * Opzioni dei Reels + alt_text delle immagini (stesse regole della pubblicazione immediata)
+ */
+export interface ScheduledPostInput extends ReelsOptions {
+  instagram_account_id: string;
+  access_token?: string; // assente = token dal vault al momento della pubblicazione
+  type: ScheduledPostType;
+  publish_at: string;
+  caption?: string;
+  image_url?: string;
+  video_url?: string;
+  items?: CarouselItem[];
+  alt_text?: string;
+}
+
+export interface ScheduledPost extends ScheduledPostInput {
+  // Con il vault attivo il token è salvato solo cifrato (access_token assente)
+  sealed_access_token?: SealedValue;
+  id: string;
+  status: ScheduledPostStatus;
+  created_at: string;
+  updated_at: string;
+  started_at?: string;
+  completed_at?: string;
+  media_id?: string;
+  permalink?: string | null;
+  error?: string;
+}
+
+// Campi modificabili finché il post non è stato pubblicato (access_token a parte)
+const EDITABLE_FIELDS = [
+  'publish_at', 'caption', 'image_url', 'video_url', 'items', 'location_id', 'cover_url', 'share_to_feed',
+  'thumb_offset', 'audio_name', 'collaborators', 'user_tags', 'trial_params', 'alt_text'
+] as const satisfies ReadonlyArray<keyof ScheduledPostInput>;
+
+function copyField<K extends keyof ScheduledPostInput>(
+  target: ScheduledPostInput,
+  source: Partial<ScheduledPostInput>,
+  field: K
+): void {
+  target[field] = source[field] as ScheduledPostInput[K];
+}
+
+/**
+ * Valida un post programmato (completo, dopo eventuale merge delle modifiche)
+ */
+export function validateScheduledPost(post: Partial<ScheduledPost>): string[] {
+  const errors: string[] = [];
+
+  if (!post.instagram_account_id) errors.push('instagram_account_id obbligatorio');
+  if (!post.access_token && !post.sealed_access_token && !tokenVaultService.isEnabled()) {
+    errors.push('access_token obbligatorio (token vault non configurato)');
+  }
+
+  const publishAt = Date.parse(post.publish_at || '');
+  if (Number.isNaN(publishAt)) {
+    errors.push('publish_at obbligatorio (data ISO 8601)');
+  } else if (publishAt <= Date.now()) {
+    errors.push('publish_at deve essere nel futuro');
+  }
+
+  errors.push(...validateCaption(post.caption).errors);
+
+  switch (post.type) {
+    case 'image':
+      if (!isValidUrl(post.image_url)) errors.push('image_url non valido');
+      errors.push(...validateImageOptions(post).errors);
+      break;
+
+    case 'reel':
+      if (!isValidUrl(post.video_url)) errors.push('video_url non valido');
+      errors.push(...validateReelsOptions(post).errors);
+      break;
+
+    case 'carousel':
+      errors.push(...validateCarouselItems(post.items).errors);
+      break;
+
+    default:
+      errors.push('type deve essere uno tra: image, reel, carousel');
+  }
+
+  return errors;
+}
+
+class SchedulerService {
+  private readonly store = new JsonFileStore<ScheduledPost[]>('schedules.json', () => []);
+  private readonly posts: ScheduledPost[] = this.store.read();
+  private timer?: NodeJS.Timeout;
+  private ticking = false;
+
+  constructor() {
+    this.migratePlaintextTokens();
+
+    // I token cifrati dei post seguono la rotazione delle chiavi del vault
+    tokenVaultService.registerSealedSource({
+      name: 'schedule',
+      listSealed: () => this.posts
+        .filter(post => post.sealed_access_token)
+        .map(post => ({ context: post.id, sealed: post.sealed_access_token! })),
+      replaceSealed: (id, sealed) => {
+        const post = this.get(id);
+        if (!post) return;
+        post.sealed_access_token = sealed;
+        this.persist();
+      }
+    });
+  }
+
+  /**
+   * Avvia il worker. I post rimasti in "publishing" (crash durante la
+   * pubblicazione) vengono segnati come falliti: ripubblicarli
+   * rischierebbe un post doppio
+   */
+  start(): void {
+    if (this.timer) return;
+
+    for (const post of this.posts.filter(item => item.status === 'publishing')) {
+      this.complete(post, 'failed', { error: 'Pubblicazione interrotta da un riavvio del servizio' });
+    }
+
+    console.log(`[SCHEDULER] ▶️ Worker avviato (${this.posts.filter(item => item.status === 'scheduled').length} post programmati)`);
+
+    this.timer = setInterval(() => void this.tick(), POLL_INTERVAL_MS);
+    this.timer.unref();
+    void this.tick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  create(input: ScheduledPostInput): ScheduledPost {
+    const now = new Date().toISOString();
+    const { access_token, ...fields } = input;
+
+    const post: ScheduledPost = {
+      ...fields,
+      publish_at: new Date(input.publish_at).toISOString(),
+      id: crypto.randomUUID(),
+      status: 'scheduled',
+      created_at: now,
+      updated_at: now
+    };
+
+    if (access_token) this.storeToken(post, access_token);
+
+    this.posts.push(post);
+    this.persist();
+
+    console.log('[SCHEDULER] 🗓️ Post programmato:', { id: post.id, type: post.type, publishAt: post.publish_at });
+    return post;
+  }
+
+  list(filter: { instagram_account_id?: string; status?: string } = {}): ScheduledPost[] {
+    return this.posts
+      .filter(post => !filter.instagram_account_id || post.instagram_account_id === filter.instagram_account_id)
+      .filter(post => !filter.status || post.status === filter.status)
+      .sort((a, b) => a.publish_at.localeCompare(b.publish_at));
+  }
+
+  get(id: string): ScheduledPost | undefined {
+    return this.posts.find(post => post.id === id);
+  }
+
+  /**
+   * Applica le modifiche a un post ancora "scheduled"
+   * @returns errori di validazione (post invariato se presenti)
+   */
+  update(post: ScheduledPost, changes: Partial<ScheduledPostInput>): string[] {
+    const updated: ScheduledPost = { ...post };
+
+    for (const field of EDITABLE_FIELDS) {
+      if (changes[field] !== undefined) {
+        copyField(updated, changes, field);
+      }
+    }
+
+    if (changes.access_token !== undefined) {
+      updated.access_token = changes.access_token;
+    }
+
+    const errors = validateScheduledPost(updated);
+    if (errors.length > 0) return errors;
+
+    if (changes.access_token !== undefined) {
+      delete updated.access_token;
+      this.storeToken(updated, changes.access_token);
+    }
+
+    Object.assign(post, updated, {
+      publish_at: new Date(updated.publish_at).toISOString(),
+      updated_at: new Date().toISOString()
+    });
+    this.persist();
+
+    console.log('[SCHEDULER] ✏️ Post modificato:', post.id);
+    return [];
+  }
+
+  cancel(post: ScheduledPost): void {
+    post.status = 'cancelled';
+    post.updated_at = new Date().toISOString();
+    this.persist();
+
+    console.log('[SCHEDULER] 🚫 Post annullato:', post.id);
+  }
+
+  /**
+   * Pubblica i post la cui data è arrivata
+   */
+  private async tick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      const now = Date.now();
+      const due = this.posts.filter(post => post.status === 'scheduled' && Date.parse(post.publish_at) <= now);
+
+      for (const post of due) {
+        await this.publish(post);
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async publish(post: ScheduledPost): Promise<void> {
+    post.status = 'publishing';
+    post.started_at = new Date().toISOString();
+    post.updated_at = post.started_at;
+    this.persist();
+
+    console.log('[SCHEDULER] 🚀 Pubblicazione post programmato:', { id: post.id, type: post.type });
+
+    try {
+      const accessToken = post.sealed_access_token
+        ? tokenVaultService.unseal(post.sealed_access_token, post.id)
+        : post.access_token || await tokenVaultService.getToken(post.instagram_account_id);
+
+      if (!accessToken) {
+        throw new Error('Nessun token disponibile per l\'account (né nel post né nel vault)');
+      }
+
+      let mediaId: string;
+
+      switch (post.type) {
+        case 'image':
+          mediaId = await instagramService.publishSingleImage(
+            post.instagram_account_id,
+            post.image_url!,
+            normalizeCaption(post.caption || ''),
+            accessToken,
+            validateImageOptions(post).options
+          );
+          break;
+
+        case 'reel':
+          mediaId = await instagramService.publishVideo(
+            post.instagram_account_id,
+            post.video_url!,
+            normalizeCaption(post.caption || ''),
+            accessToken,
+            validateReelsOptions(post).options
+          );
+          break;
+
+        case 'carousel':
+          mediaId = await instagramService.publishCarousel(
+            post.instagram_account_id,
+            validateCarouselItems(post.items).options!,
+            normalizeCaption(post.caption || ''),
+            accessToken
+          );
+          break;
+      }
+
+      const { permalink } = await instagramService
+        .getMediaPermalink(mediaId, accessToken)
+        .catch(() => ({ permalink: null }));
+
+      this.complete(post, 'published', { media_id: mediaId, permalink });
+
+    } catch (error) {
+      this.complete(post, 'failed', { error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+
+  /**
+   * Stato finale + notifica esito a IVOT
+   */
+  private complete(
+    post: ScheduledPost,
+    status: 'published' | 'failed',
+    result: { media_id?: string; permalink?: string | null; error?: string }
+  ): void {
+    Object.assign(post, result, {
+      status,
+      completed_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    });
+    this.persist();
+
+    if (status === 'published') {
+      console.log('[SCHEDULER] ✅ Post pubblicato:', { id: post.id, mediaId: post.media_id });
+    } else {
+      console.error('[SCHEDULER] ❌ Pubblicazione fallita:', { id: post.id, error: post.error });
+    }
+
+    void IvotNotifier.notifyGenericEvent('scheduled_publish_result', post.instagram_account_id, {
+      schedule_id: post.id,
+      type: post.type,
+      status,
+      publish_at: post.publish_at,
+      media_id: post.media_id || null,
+      permalink: post.permalink || null,
+      error: post.error || null
+    });
+  }
+
+  /**
+   * Token del post: cifrato con la chiave attiva del vault se configurato,
+   * altrimenti in chiaro (deprecato)
+   */
+  private storeToken(post: ScheduledPost, accessToken: string): void {
+    if (tokenVaultService.isEnabled()) {
+      post.sealed_access_token = tokenVaultService.seal(accessToken, post.id);
+      delete post.access_token;
+    } else {
+      post.access_token = accessToken;
+      delete post.sealed_access_token;
+    }
+  }
+
+  /**
+   * Post salvati prima del vault: token in chiaro cifrati (se ancora da
+   * pubblicare) o rimossi (post già conclusi, il token non serve più)
+   */
+  private migratePlaintextTokens(): void {
+    const legacy = this.posts.filter(post => post.access_token);
+    if (legacy.length === 0) return;
+
+    if (!tokenVaultService.isEnabled()) {
+      console.warn(`[SCHEDULER] ⚠️ ${legacy.length} post con access_token in chiaro: configurare TOKEN_VAULT_KEYS`);
+      return;
+    }
+
+    for (const post of legacy) {
+      if (post.status === 'scheduled') {
+        this.storeToken(post, post.access_token!);
+      } else {
+        delete post.access_token;
+      }
+    }
+
+    this.persist();
+    console.log(`[SCHEDULER] 🔐 Migrati ${legacy.length} token in chiaro`);
+  }
+
+  private persist(): void {
+    try {
+      this.store.write(this.posts);
+    } catch (error) {
+      console.error('[SCHEDULER] ❌ Impossibile salvare i post su disco:', error);
+    }
+  }
+}
+
+/**
+ * Vista pubblica del post (senza access token)
+ */
+export function toPublicScheduledPost(post: ScheduledPost): Omit<ScheduledPost, 'access_token' | 'sealed_access_token'> {
+  const { access_token, sealed_access_token, ...rest } = post;
+  return rest;
+}
+
+export const schedulerService = new SchedulerService();
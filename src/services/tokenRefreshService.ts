@@ -0,0 +1,227 @@
+// ============================================
+// TOKEN REFRESH SERVICE
+// Refresh automatico dei long-lived token salvati nel vault
+// prima della scadenza (60 giorni), con jitter e retry
+// ============================================
+
+import { instagramService } from './instagramService.js';
+import { tokenVaultService, type VaultTokenMetadata } from './tokenVaultService.js';
+import { JsonFileStore } from '../utils/jsonFileStore.js';
+import { IvotNotifier } from '../utils/ivotNotifier.js';
+import { getGraphError } from '../utils/graphErrors.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const REFRESH_WINDOW_MS = (Number(process.env.TOKEN_REFRESH_WINDOW_DAYS) || 7) * DAY_MS;
+const JITTER_MS = Number(process.env.TOKEN_REFRESH_JITTER_MS) || 6 * 60 * 60 * 1000; // 6 ore
+const POLL_INTERVAL_MS = Number(process.env.TOKEN_REFRESH_POLL_INTERVAL_MS) || 60 * 60 * 1000; // 1 ora
+const MAX_ATTEMPTS = Number(process.env.TOKEN_REFRESH_MAX_ATTEMPTS) || 5;
+const RETRY_BASE_DELAY_MS = Number(process.env.TOKEN_REFRESH_RETRY_DELAY_MS) || 15 * 60 * 1000;
+
+export type TokenRefreshStatus = 'ok' | 'retrying' | 'failed' | 'revoked' | 'expired';
+
+export interface TokenRefreshState {
+  instagram_account_id: string;
+  status: TokenRefreshStatus;
+  jitter_ms: number; // anticipo casuale: evita refresh tutti nello stesso momento
+  attempts: number;
+  next_attempt_at?: string;
+  last_refreshed_at?: string;
+  last_error?: string;
+  // expires_at per cui è già stata inviata una notifica di errore
+  notified_for_expires_at?: string;
+}
+
+class TokenRefreshService {
+  private readonly store = new JsonFileStore<Record<string, TokenRefreshState>>('token-refresh.json', () => ({}));
+  private readonly states: Record<string, TokenRefreshState> = this.store.read();
+  private timer?: NodeJS.Timeout;
+  private ticking = false;
+
+  start(): void {
+    if (this.timer) return;
+
+    if (!tokenVaultService.isEnabled()) {
+      console.warn('[TOKEN_REFRESH] ⚠️ Token vault disattivato: refresh automatico non avviato');
+      return;
+    }
+
+    console.log(`[TOKEN_REFRESH] ▶️ Worker avviato (finestra ${REFRESH_WINDOW_MS / DAY_MS} giorni prima della scadenza)`);
+
+    this.timer = setInterval(() => void this.tick(), POLL_INTERVAL_MS);
+    this.timer.unref();
+    void this.tick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  list(): TokenRefreshState[] {
+    return Object.values(this.states);
+  }
+
+  /**
+   * Refresh dei token in scadenza
+   */
+  async tick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      const now = Date.now();
+
+      for (const token of await tokenVaultService.list()) {
+        const state = this.getState(token.instagram_account_id);
+        const expiresAt = Date.parse(token.expires_at);
+
+        // Token sostituito (nuovo login o refresh manuale): errori precedenti superati
+        if (state.notified_for_expires_at && state.notified_for_expires_at !== token.expires_at) {
+          Object.assign(state, { status: 'ok', attempts: 0 });
+          delete state.notified_for_expires_at;
+          delete state.last_error;
+          this.persist();
+        }
+
+        if (Number.isNaN(expiresAt)) continue;
+
+        // Scaduto: Instagram non permette il refresh, serve un nuovo login
+        if (expiresAt <= now) {
+          this.fail(token, state, 'expired', 'Token scaduto prima del refresh');
+          continue;
+        }
+
+        const dueAt = expiresAt - REFRESH_WINDOW_MS - state.jitter_ms;
+        const retryAt = state.next_attempt_at ? Date.parse(state.next_attempt_at) : 0;
+
+        if (now < dueAt || now < retryAt || state.status === 'revoked' || state.status === 'failed') continue;
+
+        await this.refresh(token, state);
+      }
+    } catch (error) {
+      console.error('[TOKEN_REFRESH] ❌ Errore durante il controllo dei token:', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async refresh(token: VaultTokenMetadata, state: TokenRefreshState): Promise<void> {
+    state.attempts += 1;
+    console.log('[TOKEN_REFRESH] 🔄 Refresh token:', { account: token.instagram_account_id, attempt: state.attempts });
+
+    try {
+      const accessToken = await tokenVaultService.getToken(token.instagram_account_id);
+
+      // Rimosso dal vault nel frattempo: niente da aggiornare, serve un nuovo login
+      if (!accessToken) {
+        this.fail(token, state, 'failed', 'Token non più presente nel vault');
+        return;
+      }
+
+      const refreshed = await instagramService.refreshLongLivedToken(accessToken);
+      const expiresAt = new Date(Date.now() + refreshed.expires_in * 1000).toISOString();
+
+      await tokenVaultService.save({
+        instagram_account_id: token.instagram_account_id,
+        access_token: refreshed.access_token,
+        expires_at: expiresAt
+      });
+
+      Object.assign(state, {
+        status: 'ok',
+        attempts: 0,
+        last_refreshed_at: new Date().toISOString(),
+        // Nuovo jitter per il prossimo ciclo
+        jitter_ms: Math.floor(Math.random() * JITTER_MS)
+      });
+      delete state.next_attempt_at;
+      delete state.last_error;
+      this.persist();
+
+      console.log('[TOKEN_REFRESH] ✅ Token aggiornato:', { account: token.instagram_account_id, expiresAt });
+
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+
+      // 190 = token invalidato (app rimossa, password cambiata...): inutile riprovare
+      if (getGraphError(error)?.code === 190) {
+        this.fail(token, state, 'revoked', message);
+        return;
+      }
+
+      if (state.attempts >= MAX_ATTEMPTS) {
+        this.fail(token, state, 'failed', message);
+        return;
+      }
+
+      const delay = RETRY_BASE_DELAY_MS * 2 ** (state.attempts - 1);
+      state.status = 'retrying';
+      state.last_error = message;
+      state.next_attempt_at = new Date(Date.now() + delay).toISOString();
+      this.persist();
+
+      console.warn('[TOKEN_REFRESH] ⚠️ Refresh fallito, nuovo tentativo tra', Math.round(delay / 60000), 'min:', {
+        account: token.instagram_account_id,
+        attempt: `${state.attempts}/${MAX_ATTEMPTS}`,
+        error: message
+      });
+    }
+  }
+
+  /**
+   * Stato finale di errore + notifica a IVOT (una sola volta per token)
+   */
+  private fail(
+    token: VaultTokenMetadata,
+    state: TokenRefreshState,
+    status: 'failed' | 'revoked' | 'expired',
+    message: string
+  ): void {
+    if (state.notified_for_expires_at === token.expires_at) return;
+
+    state.status = status;
+    state.last_error = message;
+    state.notified_for_expires_at = token.expires_at;
+    delete state.next_attempt_at;
+    this.persist();
+
+    console.error('[TOKEN_REFRESH] ❌ Token non aggiornabile:', { account: token.instagram_account_id, status, error: message });
+
+    void IvotNotifier.notifyGenericEvent(`token_${status}`, token.instagram_account_id, {
+      status,
+      username: token.username || null,
+      expires_at: token.expires_at,
+      error: message,
+      reconnect_required: true
+    });
+  }
+
+  private getState(instagramAccountId: string): TokenRefreshState {
+    let state = this.states[instagramAccountId];
+
+    // Nuovo token dopo un login: riparte da zero
+    if (!state) {
+      state = this.states[instagramAccountId] = {
+        instagram_account_id: instagramAccountId,
+        status: 'ok',
+        jitter_ms: Math.floor(Math.random() * JITTER_MS),
+        attempts: 0
+      };
+      this.persist();
+    }
+
+    return state;
+  }
+
+  private persist(): void {
+    try {
+      this.store.write(this.states);
+    } catch (error) {
+      console.error('[TOKEN_REFRESH] ❌ Impossibile salvare lo stato su disco:', error);
+    }
+  }
+}
+
+export const tokenRefreshService = new TokenRefreshService();
@@ -0,0 +1,340 @@
+// ============================================
+// TOKEN VAULT SERVICE
+// Access token Instagram salvati lato server, cifrati
+// con AES-256-GCM, indicizzati per instagram_account_id
+// ============================================
+
+import crypto from 'crypto';
+import { JsonFileStore } from '../utils/jsonFileStore.js';
+
+// Formato: "v1:<chiave base64 32 byte>,v2:<...>" (più chiavi = rotazione)
+const VAULT_KEYS = process.env.TOKEN_VAULT_KEYS || '';
+const VAULT_ACTIVE_KEY_ID = process.env.TOKEN_VAULT_ACTIVE_KEY_ID;
+const VAULT_STORE = process.env.TOKEN_VAULT_STORE || 'file'; // file | memory
+
+/**
+ * Valore cifrato con AES-256-GCM
+ */
+export interface SealedValue {
+  key_id: string;
+  iv: string;
+  auth_tag: string;
+  ciphertext: string;
+}
+
+/**
+ * Valori cifrati con seal() salvati fuori dal vault (es: token dei post
+ * programmati): la rotazione li ri-cifra insieme ai token del vault
+ */
+export interface SealedValueSource {
+  name: string; // prefisso degli elementi falliti nel risultato di rotate()
+  listSealed(): Array<{ context: string; sealed: SealedValue }>;
+  replaceSealed(context: string, sealed: SealedValue): void;
+}
+
+export interface EncryptedTokenRecord extends SealedValue {
+  instagram_account_id: string;
+  username?: string;
+  account_type?: string;
+  expires_at: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface VaultTokenInput {
+  instagram_account_id: string;
+  access_token: string;
+  expires_at: string;
+  username?: string;
+  account_type?: string;
+}
+
+/**
+ * Vista senza dati cifrati (per admin e scheduler di refresh)
+ */
+export type VaultTokenMetadata = Omit<EncryptedTokenRecord, 'iv' | 'auth_tag' | 'ciphertext'>;
+
+export interface TokenVaultStorage {
+  get(instagramAccountId: string): Promise<EncryptedTokenRecord | undefined>;
+  set(record: EncryptedTokenRecord): Promise<void>;
+  delete(instagramAccountId: string): Promise<boolean>;
+  list(): Promise<EncryptedTokenRecord[]>;
+}
+
+/**
+ * Storage in memoria (perso al riavvio, utile per test)
+ */
+export class MemoryTokenVaultStorage implements TokenVaultStorage {
+  private readonly records = new Map<string, EncryptedTokenRecord>();
+
+  async get(instagramAccountId: string) {
+    return this.records.get(instagramAccountId);
+  }
+
+  async set(record: EncryptedTokenRecord) {
+    this.records.set(record.instagram_account_id, record);
+  }
+
+  async delete(instagramAccountId: string) {
+    return this.records.delete(instagramAccountId);
+  }
+
+  async list() {
+    return [...this.records.values()];
+  }
+}
+
+/**
+ * Storage su file JSON (solo dati cifrati su disco)
+ */
+export class FileTokenVaultStorage implements TokenVaultStorage {
+  private readonly store = new JsonFileStore<Record<string, EncryptedTokenRecord>>('token-vault.json', () => ({}));
+  private readonly records: Record<string, EncryptedTokenRecord> = this.store.read();
+
+  async get(instagramAccountId: string) {
+    return this.records[instagramAccountId];
+  }
+
+  async set(record: EncryptedTokenRecord) {
+    this.records[record.instagram_account_id] = record;
+    this.persist();
+  }
+
+  async delete(instagramAccountId: string) {
+    if (!this.records[instagramAccountId]) return false;
+    delete this.records[instagramAccountId];
+    this.persist();
+    return true;
+  }
+
+  async list() {
+    return Object.values(this.records);
+  }
+
+  private persist(): void {
+    try {
+      this.store.write(this.records);
+    } catch (error) {
+      console.error('[TOKEN_VAULT] ❌ Impossibile salvare il vault su disco:', error);
+    }
+  }
+}
+
+function parseKeys(value: string): Map<string, Buffer> {
+  const keys = new Map<string, Buffer>();
+
+  for (const entry of value.split(',').map(item => item.trim()).filter(Boolean)) {
+    const separator = entry.indexOf(':');
+    const keyId = entry.slice(0, separator);
+    const key = Buffer.from(entry.slice(separator + 1), 'base64');
+
+    if (separator <= 0 || key.length !== 32) {
+      throw new Error(`❌ TOKEN_VAULT_KEYS: chiave "${keyId || entry}" non valida (formato id:base64, 32 byte)`);
+    }
+
+    keys.set(keyId, key);
+  }
+
+  return keys;
+}
+
+class TokenVaultService {
+  private readonly keys = parseKeys(VAULT_KEYS);
+  // Default: l'ultima chiave elencata è quella attiva
+  private readonly activeKeyId = VAULT_ACTIVE_KEY_ID || [...this.keys.keys()].pop();
+  private storage: TokenVaultStorage = VAULT_STORE === 'memory' ? new MemoryTokenVaultStorage() : new FileTokenVaultStorage();
+  private readonly sealedSources: SealedValueSource[] = [];
+
+  constructor() {
+    if (this.activeKeyId && !this.keys.has(this.activeKeyId)) {
+      throw new Error(`❌ TOKEN_VAULT_ACTIVE_KEY_ID "${this.activeKeyId}" non presente in TOKEN_VAULT_KEYS`);
+    }
+
+    if (!this.isEnabled()) {
+      console.warn('[TOKEN_VAULT] ⚠️ TOKEN_VAULT_KEYS non configurato: vault disattivato');
+    }
+  }
+
+  /**
+   * Sostituisce lo storage (es: database condiviso tra più istanze)
+   */
+  setStorage(storage: TokenVaultStorage): void {
+    this.storage = storage;
+  }
+
+  /**
+   * Registra i valori cifrati con seal() da includere nella rotazione
+   */
+  registerSealedSource(source: SealedValueSource): void {
+    this.sealedSources.push(source);
+  }
+
+  isEnabled(): boolean {
+    return this.activeKeyId !== undefined;
+  }
+
+  /**
+   * Salva (o sostituisce) il token di un account, cifrato con la chiave attiva
+   */
+  async save(input: VaultTokenInput): Promise<void> {
+    if (!this.isEnabled()) {
+      console.warn('[TOKEN_VAULT] ⚠️ Vault disattivato (TOKEN_VAULT_KEYS): token non salvato per', input.instagram_account_id);
+      return;
+    }
+
+    const existing = await this.storage.get(input.instagram_account_id);
+    const now = new Date().toISOString();
+
+    await this.storage.set({
+      instagram_account_id: input.instagram_account_id,
+      username: input.username ?? existing?.username,
+      account_type: input.account_type ?? existing?.account_type,
+      expires_at: input.expires_at,
+      ...this.encrypt(input.access_token, input.instagram_account_id),
+      created_at: existing?.created_at || now,
+      updated_at: now
+    });
+
+    console.log('[TOKEN_VAULT] 🔐 Token salvato:', { account: input.instagram_account_id, expiresAt: input.expires_at });
+  }
+
+  /**
+   * Token in chiaro di un account (undefined se assente o vault disattivato)
+   */
+  async getToken(instagramAccountId: string): Promise<string | undefined> {
+    if (!this.isEnabled()) return undefined;
+
+    const record = await this.storage.get(instagramAccountId);
+    return record ? this.decrypt(record, record.instagram_account_id) : undefined;
+  }
+
+  /**
+   * Cifra un valore fuori dal vault (es: token di un post programmato);
+   * context è legato al valore come AAD e va ripassato a unseal
+   */
+  seal(value: string, context: string): SealedValue {
+    if (!this.isEnabled()) {
+      throw new Error('Token vault non configurato (TOKEN_VAULT_KEYS)');
+    }
+
+    return this.encrypt(value, context);
+  }
+
+  unseal(sealed: SealedValue, context: string): string {
+    return this.decrypt(sealed, context);
+  }
+
+  async getMetadata(instagramAccountId: string): Promise<VaultTokenMetadata | undefined> {
+    const record = await this.storage.get(instagramAccountId);
+    return record ? toMetadata(record) : undefined;
+  }
+
+  async list(): Promise<VaultTokenMetadata[]> {
+    return (await this.storage.list()).map(toMetadata);
+  }
+
+  async remove(instagramAccountId: string): Promise<boolean> {
+    const removed = await this.storage.delete(instagramAccountId);
+    if (removed) console.log('[TOKEN_VAULT] 🗑️ Token rimosso:', instagramAccountId);
+    return removed;
+  }
+
+  /**
+   * Rotazione: ri-cifra con la chiave attiva i token cifrati con chiavi precedenti,
+   * compresi i valori delle sorgenti registrate (failed: account id o "<sorgente>:<context>")
+   * @returns numero di token ri-cifrati
+   */
+  async rotate(): Promise<{ rotated: number; failed: string[] }> {
+    if (!this.isEnabled()) return { rotated: 0, failed: [] };
+
+    let rotated = 0;
+    const failed: string[] = [];
+
+    for (const record of await this.storage.list()) {
+      if (record.key_id === this.activeKeyId) continue;
+
+      try {
+        const token = this.decrypt(record, record.instagram_account_id);
+        await this.storage.set({
+          ...record,
+          ...this.encrypt(token, record.instagram_account_id),
+          updated_at: new Date().toISOString()
+        });
+        rotated++;
+      } catch (error) {
+        console.error('[TOKEN_VAULT] ❌ Rotazione fallita:', {
+          account: record.instagram_account_id,
+          keyId: record.key_id,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+        failed.push(record.instagram_account_id);
+      }
+    }
+
+    for (const source of this.sealedSources) {
+      for (const { context, sealed } of source.listSealed()) {
+        if (sealed.key_id === this.activeKeyId) continue;
+
+        try {
+          source.replaceSealed(context, this.encrypt(this.decrypt(sealed, context), context));
+          rotated++;
+        } catch (error) {
+          console.error('[TOKEN_VAULT] ❌ Rotazione fallita:', {
+            source: source.name,
+            context,
+            keyId: sealed.key_id,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+          failed.push(`${source.name}:${context}`);
+        }
+      }
+    }
+
+    console.log(`[TOKEN_VAULT] 🔄 Rotazione completata: ${rotated} token ri-cifrati con "${this.activeKeyId}"`);
+    return { rotated, failed };
+  }
+
+  /**
+   * AES-256-GCM; l'account id (o il context) è usato come AAD, così un record
+   * copiato su un altro account non si decifra
+   */
+  private encrypt(token: string, instagramAccountId: string): SealedValue {
+    const keyId = this.activeKeyId!;
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.keys.get(keyId)!, iv);
+    cipher.setAAD(Buffer.from(instagramAccountId));
+
+    const ciphertext = Buffer.concat([cipher.update(token, 'utf8'), cipher.final()]);
+
+    return {
+      key_id: keyId,
+      iv: iv.toString('base64'),
+      auth_tag: cipher.getAuthTag().toString('base64'),
+      ciphertext: ciphertext.toString('base64')
+    };
+  }
+
+  private decrypt(record: SealedValue, aad: string): string {
+    const key = this.keys.get(record.key_id);
+
+    if (!key) {
+      throw new Error(`Chiave "${record.key_id}" non disponibile per decifrare il token`);
+    }
+
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(record.iv, 'base64'));
+    decipher.setAAD(Buffer.from(aad));
+    decipher.setAuthTag(Buffer.from(record.auth_tag, 'base64'));
+
+    return Buffer.concat([
+      decipher.update(Buffer.from(record.ciphertext, 'base64')),
+      decipher.final()
+    ]).toString('utf8');
+  }
+}
+
+function toMetadata(record: EncryptedTokenRecord): VaultTokenMetadata {
+  const { iv, auth_tag, ciphertext, ...metadata } = record;
+  return metadata;
+}
+
+export const tokenVaultService = new TokenVaultService();
@@ -0,0 +1,109 @@
+// ============================================
+// CALLBACK ALLOWLIST
+// Origin e path ammessi per il callbackUrl OAuth
+// (protezione da open redirect), configurabili per ambiente
+// ============================================
+
+const ENVIRONMENT = (process.env.NODE_ENV || 'development').toUpperCase();
+const IS_PRODUCTION = ENVIRONMENT === 'PRODUCTION';
+
+/**
+ * Variabile specifica dell'ambiente (es: OAUTH_CALLBACK_ALLOWED_ORIGINS_PRODUCTION),
+ * altrimenti quella generica
+ */
+function readEnvList(name: string): string[] {
+  const value = process.env[`${name}_${ENVIRONMENT}`] ?? process.env[name] ?? '';
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+function parseOrigins(values: string[]): Set<string> {
+  const origins = new Set<string>();
+
+  for (const value of values) {
+    let url: URL;
+    try {
+      url = new URL(value);
+    } catch {
+      throw new Error(`❌ OAUTH_CALLBACK_ALLOWED_ORIGINS: origin "${value}" non valido`);
+    }
+
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+      throw new Error(`❌ OAUTH_CALLBACK_ALLOWED_ORIGINS: origin "${value}" non valido (solo http/https)`);
+    }
+
+    origins.add(url.origin);
+  }
+
+  return origins;
+}
+
+function parsePathPrefixes(values: string[]): string[] {
+  for (const value of values) {
+    if (!value.startsWith('/')) {
+      throw new Error(`❌ OAUTH_CALLBACK_ALLOWED_PATHS: path "${value}" deve iniziare con /`);
+    }
+  }
+
+  // Nessun prefisso configurato = qualsiasi path dell'origin
+  return values.length > 0 ? values : ['/'];
+}
+
+const ALLOWED_ORIGINS = parseOrigins(readEnvList('OAUTH_CALLBACK_ALLOWED_ORIGINS'));
+const ALLOWED_PATH_PREFIXES = parsePathPrefixes(readEnvList('OAUTH_CALLBACK_ALLOWED_PATHS'));
+
+const LOCAL_HOSTNAMES = new Set(['localhost', '127.0.0.1', '[::1]']);
+
+if (ALLOWED_ORIGINS.size === 0) {
+  console.warn(IS_PRODUCTION
+    ? '[OAUTH] ⚠️ OAUTH_CALLBACK_ALLOWED_ORIGINS non configurato: ogni callbackUrl sarà rifiutato'
+    : '[OAUTH] ⚠️ OAUTH_CALLBACK_ALLOWED_ORIGINS non configurato: ammessi solo callbackUrl su localhost');
+}
+
+export interface CallbackUrlCheck {
+  allowed: boolean;
+  reason?: string;
+}
+
+/**
+ * Path ammesso se coincide con il prefisso o ne è un sotto-percorso
+ * (/auth ammette /auth e /auth/callback, non /authx)
+ */
+function matchesPathPrefix(pathname: string, prefix: string): boolean {
+  if (prefix === '/' || pathname === prefix) return true;
+  return pathname.startsWith(prefix.endsWith('/') ? prefix : `${prefix}/`);
+}
+
+/**
+ * Verifica che il callbackUrl sia tra quelli ammessi
+ */
+export function checkCallbackUrl(callbackUrl: string): CallbackUrlCheck {
+  let url: URL;
+  try {
+    url = new URL(callbackUrl);
+  } catch {
+    return { allowed: false, reason: 'URL non valido' };
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    return { allowed: false, reason: `protocollo ${url.protocol} non ammesso` };
+  }
+
+  if (url.username || url.password) {
+    return { allowed: false, reason: 'credenziali nell\'URL non ammesse' };
+  }
+
+  const originAllowed = ALLOWED_ORIGINS.size > 0
+    ? ALLOWED_ORIGINS.has(url.origin)
+    : !IS_PRODUCTION && LOCAL_HOSTNAMES.has(url.hostname);
+
+  if (!originAllowed) {
+    return { allowed: false, reason: `origin ${url.origin} non ammesso` };
+  }
+
+  // URL normalizza già i segmenti "..", quindi il confronto è sul path reale
+  if (!ALLOWED_PATH_PREFIXES.some(prefix => matchesPathPrefix(url.pathname, prefix))) {
+    return { allowed: false, reason: `path ${url.pathname} non ammesso` };
+  }
+
+  return { allowed: true };
+}
@@ -0,0 +1,96 @@
+// ============================================
+// CAPTION
+// Validazione e normalizzazione delle caption,
+// estrazione di hashtag e menzioni
+// ============================================
+
+// Limiti Instagram (oltre questi la creazione del container fallisce)
+export const CAPTION_LIMITS = {
+  MAX_LENGTH: 2200,
+  HASHTAGS_MAX: 30,
+  MENTIONS_MAX: 20
+} as const;
+
+const HASHTAG_PATTERN = /(?:^|[^\p{L}\p{N}_&])#([\p{L}\p{N}_]+)/gu;
+const MENTION_PATTERN = /(?:^|[^\p{L}\p{N}_.])@([A-Za-z0-9_](?:[A-Za-z0-9_.]{0,28}[A-Za-z0-9_])?)/gu;
+
+export interface CaptionValidation {
+  valid: boolean;
+  errors: string[];
+  caption: string; // normalizzata
+  length: number;
+  hashtags: string[];
+  mentions: string[];
+}
+
+/**
+ * Unicode in forma NFC, a capo uniformati a \n,
+ * spazi finali di riga rimossi
+ */
+export function normalizeCaption(input: string): string {
+  return input
+    .normalize('NFC')
+    .replace(/\r\n?|\u2028|\u2029/g, '\n')
+    .split('\n')
+    .map(line => line.trimEnd())
+    .join('\n')
+    .trim();
+}
+
+const unique = (values: string[]) => [...new Set(values)];
+
+export function extractHashtags(caption: string): string[] {
+  return [...caption.matchAll(HASHTAG_PATTERN)].map(match => match[1]);
+}
+
+export function extractMentions(caption: string): string[] {
+  return [...caption.matchAll(MENTION_PATTERN)].map(match => match[1]);
+}
+
+/**
+ * Valida una caption (assente = caption vuota)
+ */
+export function validateCaption(input: unknown): CaptionValidation {
+  if (input !== undefined && input !== null && typeof input !== 'string') {
+    return { valid: false, errors: ['caption deve essere una stringa'], caption: '', length: 0, hashtags: [], mentions: [] };
+  }
+
+  const errors: string[] = [];
+  const caption = normalizeCaption(input || '');
+  // Lunghezza in caratteri (code point), non in unità UTF-16
+  const length = [...caption].length;
+  const hashtags = extractHashtags(caption);
+  const mentions = extractMentions(caption);
+
+  if (length > CAPTION_LIMITS.MAX_LENGTH) {
+    errors.push(`caption: massimo ${CAPTION_LIMITS.MAX_LENGTH} caratteri (attuali: ${length})`);
+  }
+
+  if (hashtags.length > CAPTION_LIMITS.HASHTAGS_MAX) {
+    errors.push(`caption: massimo ${CAPTION_LIMITS.HASHTAGS_MAX} hashtag (attuali: ${hashtags.length})`);
+  }
+
+  if (mentions.length > CAPTION_LIMITS.MENTIONS_MAX) {
+    errors.push(`caption: massimo ${CAPTION_LIMITS.MENTIONS_MAX} menzioni (attuali: ${mentions.length})`);
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    caption,
+    length,
+    hashtags: unique(hashtags),
+    mentions: unique(mentions)
+  };
+}
+
+/**
+ * Riepilogo della caption restituito nelle risposte di pubblicazione
+ */
+export function toCaptionSummary(validation: CaptionValidation) {
+  return {
+    length: validation.length,
+    hashtags: validation.hashtags,
+    mentions: validation.mentions
+  };
+}
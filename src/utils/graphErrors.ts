@@ -0,0 +1,80 @@
+// ============================================
+// GRAPH API ERRORS
+// Mapping errori Graph API → risposte HTTP del microservizio
+// ============================================
+
+import type { Response } from 'express';
+import axios from 'axios';
+
+/**
+ * Oggetto `error` restituito dalla Graph API
+ */
+export interface GraphApiError {
+  message: string;
+  type?: string;
+  code: number;
+  error_subcode?: number;
+  error_user_title?: string;
+  error_user_msg?: string;
+  fbtrace_id?: string;
+}
+
+/**
+ * Estrae l'oggetto `error` della Graph API da un errore axios
+ * (anche se incapsulato come `cause` di un altro errore)
+ */
+export function getGraphError(error: unknown): GraphApiError | undefined {
+  if (axios.isAxiosError(error)) {
+    return (error.response?.data as { error?: GraphApiError } | undefined)?.error;
+  }
+  if (error instanceof Error && error.cause) {
+    return getGraphError(error.cause);
+  }
+  return undefined;
+}
+
+/**
+ * Risponde con lo status corretto in base al codice errore Graph:
+ * 190 → 401, 4/32 → 429, 200 → 403, altrimenti status Graph (o 500)
+ * @param fallbackMessage Messaggio se Graph non ne fornisce uno
+ */
+export function sendGraphError(res: Response, error: unknown, fallbackMessage: string) {
+  if (axios.isAxiosError(error)) {
+    const fbError = getGraphError(error);
+
+    if (fbError?.code === 190) {
+      return res.status(401).json({
+        error: 'TOKEN_EXPIRED',
+        message: 'Access token scaduto o invalidato',
+        facebook_error: fbError
+      });
+    }
+
+    if (fbError?.code === 4 || fbError?.code === 32) {
+      return res.status(429).json({
+        error: 'RATE_LIMIT',
+        message: 'Rate limit raggiunto',
+        facebook_error: fbError
+      });
+    }
+
+    if (fbError?.code === 200) {
+      return res.status(403).json({
+        error: 'PERMISSION_DENIED',
+        message: 'Permessi insufficienti',
+        facebook_error: fbError
+      });
+    }
+
+    return res.status(error.response?.status || 500).json({
+      error: 'INSTAGRAM_API_ERROR',
+      message: fbError?.message || fallbackMessage,
+      facebook_error: fbError
+    });
+  }
+
+  return res.status(500).json({
+    error: 'INTERNAL_ERROR',
+    message: 'Errore interno del microservizio'
+  });
+}
@@ -0,0 +1,248 @@
+// ============================================
+// INSIGHTS METRICS
+// Metriche valide per account e per tipo di media,
+// validazione parametri e normalizzazione serie temporali
+// ============================================
+
+export type InsightsPeriod = 'day' | 'week' | 'days_28' | 'lifetime';
+
+export type InsightsMetricType = 'time_series' | 'total_value';
+
+/**
+ * Metriche account → periodi supportati e formato di risposta
+ * (Instagram non accetta metric_type diversi nella stessa richiesta)
+ */
+export const ACCOUNT_METRICS: Record<string, { periods: InsightsPeriod[]; metricType: InsightsMetricType }> = {
+  reach: { periods: ['day', 'week', 'days_28'], metricType: 'time_series' },
+  follower_count: { periods: ['day'], metricType: 'time_series' },
+  online_followers: { periods: ['lifetime'], metricType: 'time_series' },
+  views: { periods: ['day'], metricType: 'total_value' },
+  profile_views: { periods: ['day'], metricType: 'total_value' },
+  accounts_engaged: { periods: ['day'], metricType: 'total_value' },
+  total_interactions: { periods: ['day'], metricType: 'total_value' },
+  website_clicks: { periods: ['day'], metricType: 'total_value' }
+};
+
+// Metriche deprecate da Instagram → sostituto attuale
+const METRIC_ALIASES: Record<string, string> = {
+  impressions: 'views',
+  plays: 'views'
+};
+
+export type MediaKind = 'FEED' | 'REELS' | 'STORY';
+
+/**
+ * Metriche media valide per tipo
+ */
+export const MEDIA_METRICS: Record<MediaKind, string[]> = {
+  FEED: ['reach', 'views', 'likes', 'comments', 'shares', 'saved', 'total_interactions', 'profile_visits', 'follows'],
+  REELS: [
+    'reach', 'views', 'likes', 'comments', 'shares', 'saved', 'total_interactions',
+    'ig_reels_avg_watch_time', 'ig_reels_video_view_total_time'
+  ],
+  STORY: ['reach', 'views', 'replies', 'shares', 'navigation', 'total_interactions', 'follows', 'profile_visits']
+};
+
+/**
+ * Metriche media che Instagram restituisce solo con un breakdown obbligatorio
+ * (vanno richieste separatamente dalle altre)
+ */
+export const MEDIA_METRIC_BREAKDOWNS: Record<string, string> = {
+  navigation: 'story_navigation_action_type'
+};
+
+// Metriche sommabili nel tempo: per le altre (reach = utenti unici,
+// follower_count, online_followers) la somma dei valori giornalieri non ha senso
+const ADDITIVE_METRICS = new Set([
+  'views', 'likes', 'comments', 'shares', 'saved', 'replies', 'follows',
+  'profile_views', 'profile_visits', 'website_clicks', 'total_interactions'
+]);
+
+// Intervallo massimo since/until accettato da Instagram
+const MAX_RANGE_SECONDS = 30 * 24 * 60 * 60;
+
+export interface AccountInsightsQuery {
+  metrics: string[];
+  period: InsightsPeriod;
+  since?: number;
+  until?: number;
+}
+
+export interface InsightsValidation<T> {
+  valid: boolean;
+  errors: string[];
+  query?: T;
+}
+
+export interface InsightsSeries {
+  metric: string;
+  period: string;
+  title?: string;
+  total: number | null;
+  values: Array<{ end_time: string | null; value: unknown }>;
+  breakdown?: Record<string, number>; // es: navigation per story_navigation_action_type
+}
+
+/**
+ * "reach,views" → ['reach', 'views'] (alias deprecati sostituiti)
+ */
+export function parseMetrics(input: unknown): string[] {
+  if (typeof input !== 'string' || input.trim() === '') return [];
+
+  const metrics = input
+    .split(',')
+    .map(metric => metric.trim())
+    .filter(Boolean)
+    .map(metric => METRIC_ALIASES[metric] || metric);
+
+  return [...new Set(metrics)];
+}
+
+/**
+ * Accetta timestamp unix (secondi) o data ISO
+ */
+function parseTimestamp(input: unknown): number | undefined | null {
+  if (input === undefined || input === '') return undefined;
+
+  const asNumber = Number(input);
+  if (Number.isFinite(asNumber)) return Math.floor(asNumber);
+
+  const asDate = Date.parse(String(input));
+  return Number.isNaN(asDate) ? null : Math.floor(asDate / 1000);
+}
+
+/**
+ * Valida metriche/periodo/intervallo per gli insights account
+ */
+export function validateAccountInsightsQuery(raw: {
+  metric?: unknown;
+  period?: unknown;
+  since?: unknown;
+  until?: unknown;
+}): InsightsValidation<AccountInsightsQuery> {
+  const errors: string[] = [];
+  const metrics = parseMetrics(raw.metric);
+  const period = (raw.period || 'day') as InsightsPeriod;
+
+  if (metrics.length === 0) {
+    errors.push(`metric obbligatorio (valori: ${Object.keys(ACCOUNT_METRICS).join(', ')})`);
+  }
+
+  for (const metric of metrics) {
+    const definition = ACCOUNT_METRICS[metric];
+
+    if (!definition) {
+      errors.push(`metrica "${metric}" non supportata`);
+    } else if (!definition.periods.includes(period)) {
+      errors.push(`metrica "${metric}" non supporta period=${period} (valori: ${definition.periods.join(', ')})`);
+    }
+  }
+
+  const since = parseTimestamp(raw.since);
+  const until = parseTimestamp(raw.until);
+
+  if (since === null) errors.push('since non valido (timestamp unix o data ISO)');
+  if (until === null) errors.push('until non valido (timestamp unix o data ISO)');
+
+  if (typeof since === 'number' && typeof until === 'number') {
+    if (since >= until) {
+      errors.push('since deve essere precedente a until');
+    } else if (until - since > MAX_RANGE_SECONDS) {
+      errors.push('intervallo since/until massimo 30 giorni');
+    }
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    errors,
+    query: { metrics, period, since: since ?? undefined, until: until ?? undefined }
+  };
+}
+
+/**
+ * Raggruppa le metriche per metric_type (una richiesta Graph per gruppo)
+ */
+export function groupByMetricType(metrics: string[]): Partial<Record<InsightsMetricType, string[]>> {
+  const groups: Partial<Record<InsightsMetricType, string[]>> = {};
+
+  for (const metric of metrics) {
+    const metricType = ACCOUNT_METRICS[metric]?.metricType || 'time_series';
+    (groups[metricType] ||= []).push(metric);
+  }
+
+  return groups;
+}
+
+/**
+ * Tipo di media ai fini degli insights
+ */
+export function getMediaKind(media: { media_type?: string; media_product_type?: string }): MediaKind {
+  if (media.media_product_type === 'STORY') return 'STORY';
+  if (media.media_product_type === 'REELS') return 'REELS';
+  return 'FEED';
+}
+
+/**
+ * Valida le metriche richieste per il tipo di media (default: tutte quelle valide)
+ */
+export function validateMediaMetrics(input: unknown, kind: MediaKind): InsightsValidation<string[]> {
+  const allowed = MEDIA_METRICS[kind];
+  const metrics = parseMetrics(input);
+
+  if (metrics.length === 0) {
+    return { valid: true, errors: [], query: allowed };
+  }
+
+  const errors = metrics
+    .filter(metric => !allowed.includes(metric))
+    .map(metric => `metrica "${metric}" non valida per media ${kind} (valori: ${allowed.join(', ')})`);
+
+  return errors.length > 0
+    ? { valid: false, errors }
+    : { valid: true, errors, query: metrics };
+}
+
+/**
+ * Risposta Graph insights → serie temporali normalizzate
+ * (gestisce sia `values` sia `total_value`, con eventuale breakdown).
+ * `total` dalle serie solo per metriche sommabili
+ */
+export function normalizeInsights(data: any[]): InsightsSeries[] {
+  return (data || []).map(item => {
+    const values = Array.isArray(item.values)
+      ? item.values.map((point: any) => ({ end_time: point.end_time || null, value: point.value }))
+      : [];
+
+    let total: number | null = null;
+    if (typeof item.total_value?.value === 'number') {
+      total = item.total_value.value;
+    } else if (
+      ADDITIVE_METRICS.has(item.name) &&
+      values.length > 0 &&
+      values.every((point: any) => typeof point.value === 'number')
+    ) {
+      total = values.reduce((sum: number, point: any) => sum + point.value, 0);
+    }
+
+    const series: InsightsSeries = {
+      metric: item.name,
+      period: item.period,
+      title: item.title,
+      total,
+      values
+    };
+
+    const results = item.total_value?.breakdowns?.[0]?.results;
+    if (Array.isArray(results)) {
+      series.breakdown = Object.fromEntries(
+        results.map((result: any) => [result.dimension_values?.join('|') || 'unknown', result.value])
+      );
+    }
+
+    return series;
+  });
+}
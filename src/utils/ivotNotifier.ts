@@ -3,29 +3,62 @@
 // Invia notifiche webhook a IVOT backend
 // ============================================
 
-import axios from 'axios';
+import { outboxService } from '../services/outboxService.js';
 
-const IVOT_BACKEND_URL = process.env.IVOT_BACKEND_WEBHOOK_URL || 'http://localhost:3000/api/webhooks/instagram';
-const INTERNAL_API_KEY = process.env.INTERNAL_API_KEY;
+// Base URL unico per tutti gli eventi inviati a IVOT (fallback su IVOT_FRONTEND_URL)
+const IVOT_BACKEND_URL = process.env.IVOT_BACKEND_WEBHOOK_URL
+  || (process.env.IVOT_FRONTEND_URL ? `${process.env.IVOT_FRONTEND_URL}/api/webhooks/instagram` : 'http://localhost:3000/api/webhooks/instagram');
 
-interface IvotMessagePayload {
+export type IvotMessageType =
+  | 'text'
+  | 'image'
+  | 'video'
+  | 'audio'
+  | 'file'
+  | 'sticker'
+  | 'share'
+  | 'reel'
+  | 'story_mention'
+  | 'story_reply'
+  | 'quick_reply'
+  | 'referral'
+  | 'reaction'
+  | 'postback'
+  | 'unsupported'
+  | 'deleted';
+
+export interface IvotMessageAttachment {
+  type: string;
+  url?: string;
+  payload?: any;
+}
+
+export interface IvotMessagePayload {
   // Identificatori
   instagram_account_id: string;
   sender_id: string;
   sender_username?: string;
-  conversation_id: string;
+  conversation_id: string; // IGSID dell'interlocutore (webhook e storico)
   
   // Contenuto
   message: {
     id: string;
     text?: string;
-    attachments?: Array<{
-      type: string;
-      url?: string;
-      payload?: any;
-    }>;
+    attachments?: IvotMessageAttachment[];
     timestamp: number;
-    type: 'text' | 'image' | 'video' | 'audio' | 'sticker' | 'reaction' | 'story_mention' | 'quick_reply' | 'referral' | 'postback';
+    type: IvotMessageType;
+    // Risposta a un messaggio o a una storia
+    reply_to?: {
+      mid?: string;
+      story?: { id?: string; url?: string };
+    };
+    quick_reply?: { payload: string };
+    referral?: {
+      ref?: string;
+      source?: string;
+      type?: string;
+      ads_context_data?: any;
+    };
   };
   
   // Metadata
@@ -39,6 +72,56 @@ interface IvotMessagePayload {
   instagram_webhook_time: number;
 }
 
+export interface IvotReactionPayload {
+  instagram_account_id: string;
+  sender_id: string;
+  conversation_id: string;
+  reaction: {
+    message_id: string;
+    action: 'react' | 'unreact';
+    reaction?: string; // es: "love"
+    emoji?: string;
+  };
+  timestamp: number;
+  webhook_event_type: 'reaction';
+  webhook_received_at: string;
+  instagram_webhook_time: number;
+}
+
+export interface IvotReadPayload {
+  instagram_account_id: string;
+  sender_id: string;
+  conversation_id: string;
+  read: {
+    message_id?: string; // Instagram: ultimo messaggio letto
+    watermark?: number;  // Tutti i messaggi fino a questo timestamp sono letti
+  };
+  timestamp: number;
+  webhook_event_type: 'read';
+  webhook_received_at: string;
+  instagram_webhook_time: number;
+}
+
+export interface IvotPostbackPayload {
+  instagram_account_id: string;
+  sender_id: string;
+  conversation_id: string;
+  postback: {
+    message_id?: string;
+    title?: string;
+    payload: string;
+    referral?: {
+      ref?: string;
+      source?: string;
+      type?: string;
+    };
+  };
+  timestamp: number;
+  webhook_event_type: 'postback';
+  webhook_received_at: string;
+  instagram_webhook_time: number;
+}
+
 interface IvotCommentPayload {
   instagram_account_id: string;
   comment_id: string;
@@ -56,70 +139,65 @@ export class IvotNotifier {
    * Invia notifica di messaggio a IVOT
    */
   static async notifyMessage(payload: IvotMessagePayload): Promise<void> {
-    try {
-      console.log('📤 Sending message to IVOT:', {
-        account: payload.instagram_account_id,
-        sender: payload.sender_id,
-        type: payload.message.type,
-        hasText: !!payload.message.text
-      });
-
-      const response = await axios.post(
-        `${IVOT_BACKEND_URL}/messages`,
-        payload,
-        {
-          headers: {
-            'Content-Type': 'application/json',
-            'X-Api-Key': INTERNAL_API_KEY,
-          },
-          timeout: 10000, // 10 secondi
-        }
-      );
-
-      if (response.status === 200) {
-        console.log('✅ Message delivered to IVOT');
-      } else {
-        console.warn('⚠️ IVOT responded with status:', response.status);
-      }
-    } catch (error) {
-      console.error('❌ Failed to notify IVOT:', {
-        error: error instanceof Error ? error.message : 'Unknown',
-        account: payload.instagram_account_id,
-        messageId: payload.message.id
-      });
-      
-      // Non rilanciare - non vogliamo bloccare il webhook
-      // IVOT dovrebbe avere retry logic o fallback
-    }
+    console.log('📤 Sending message to IVOT:', {
+      account: payload.instagram_account_id,
+      sender: payload.sender_id,
+      type: payload.message.type,
+      hasText: !!payload.message.text
+    });
+
+    // Consegna tramite outbox: retry e dead-letter se IVOT non risponde
+    outboxService.enqueue('message', `${IVOT_BACKEND_URL}/messages`, payload);
+  }
+
+  /**
+   * Invia reaction (react/unreact) a IVOT
+   */
+  static async notifyReaction(payload: IvotReactionPayload): Promise<void> {
+    console.log('📤 Sending reaction to IVOT:', {
+      account: payload.instagram_account_id,
+      messageId: payload.reaction.message_id,
+      action: payload.reaction.action
+    });
+
+    outboxService.enqueue('reaction', `${IVOT_BACKEND_URL}/reactions`, payload);
+  }
+
+  /**
+   * Invia conferma di lettura a IVOT
+   */
+  static async notifyRead(payload: IvotReadPayload): Promise<void> {
+    console.log('📤 Sending read receipt to IVOT:', {
+      account: payload.instagram_account_id,
+      messageId: payload.read.message_id
+    });
+
+    outboxService.enqueue('read', `${IVOT_BACKEND_URL}/reads`, payload);
+  }
+
+  /**
+   * Invia postback (icebreaker, bottoni) a IVOT
+   */
+  static async notifyPostback(payload: IvotPostbackPayload): Promise<void> {
+    console.log('📤 Sending postback to IVOT:', {
+      account: payload.instagram_account_id,
+      payload: payload.postback.payload
+    });
+
+    outboxService.enqueue('postback', `${IVOT_BACKEND_URL}/postbacks`, payload);
   }
 
   /**
    * Invia notifica di commento a IVOT
    */
   static async notifyComment(payload: IvotCommentPayload): Promise<void> {
-    try {
-      console.log('📤 Sending comment to IVOT:', {
-        account: payload.instagram_account_id,
-        commentId: payload.comment_id,
-        mediaId: payload.media_id
-      });
-
-      await axios.post(
-        `${IVOT_BACKEND_URL}/comments`,
-        payload,
-        {
-          headers: {
-            'Content-Type': 'application/json',
-            'X-Api-Key': INTERNAL_API_KEY,
-          },
-          timeout: 10000,
-        }
-      );
-
-      console.log('✅ Comment delivered to IVOT');
-    } catch (error) {
-      console.error('❌ Failed to notify IVOT comment:', error);
-    }
+    console.log('📤 Sending comment to IVOT:', {
+      account: payload.instagram_account_id,
+      commentId: payload.comment_id,
+      mediaId: payload.media_id
+    });
+
+    outboxService.enqueue(payload.webhook_event_type, `${IVOT_BACKEND_URL}/comments`, payload);
   }
 
   /**
@@ -130,29 +208,13 @@ export class IvotNotifier {
     accountId: string,
     data: any
   ): Promise<void> {
-    try {
-      console.log(`📤 Sending ${eventType} to IVOT`);
-
-      await axios.post(
-        `${IVOT_BACKEND_URL}/events`,
-        {
-          event_type: eventType,
-          instagram_account_id: accountId,
-          data,
-          received_at: new Date().toISOString()
-        },
-        {
-          headers: {
-            'Content-Type': 'application/json',
-            'X-Api-Key': INTERNAL_API_KEY,
-          },
-          timeout: 10000,
-        }
-      );
-
-      console.log('✅ Event delivered to IVOT');
-    } catch (error) {
-      console.error('❌ Failed to notify IVOT event:', error);
-    }
+    console.log(`📤 Sending ${eventType} to IVOT`);
+
+    outboxService.enqueue(eventType, `${IVOT_BACKEND_URL}/events`, {
+      event_type: eventType,
+      instagram_account_id: accountId,
+      data,
+      received_at: new Date().toISOString()
+    });
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,48 @@
+// ============================================
+// JSON FILE STORE
+// Persistenza minimale su file JSON (scrittura atomica)
+// ============================================
+
+import fs from 'fs';
+import path from 'path';
+
+const DATA_DIR = process.env.DATA_DIR || './data';
+
+export class JsonFileStore<T> {
+  private readonly filePath: string;
+
+  /**
+   * @param fileName Nome del file dentro DATA_DIR (es: outbox.json)
+   * @param initial Valore iniziale se il file non esiste
+   */
+  constructor(fileName: string, private readonly initial: () => T) {
+    this.filePath = path.resolve(DATA_DIR, fileName);
+  }
+
+  /**
+   * Legge il contenuto del file (o il valore iniziale)
+   */
+  read(): T {
+    try {
+      const raw = fs.readFileSync(this.filePath, 'utf8');
+      return JSON.parse(raw) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`❌ Impossibile leggere ${this.filePath}:`, error);
+      }
+      return this.initial();
+    }
+  }
+
+  /**
+   * Scrive il contenuto su file: prima su un file temporaneo, poi rename
+   * così un crash a metà scrittura non corrompe i dati
+   */
+  write(data: T): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(data, null, 2));
+    fs.renameSync(tmpPath, this.filePath);
+  }
+}
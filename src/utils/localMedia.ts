@@ -0,0 +1,44 @@
+// ============================================
+// LOCAL MEDIA
+// File video locali per l'upload resumable
+// ============================================
+
+import fs from 'fs';
+import path from 'path';
+
+// Cartella da cui è consentito leggere file locali (non impostata = disabilitato)
+const LOCAL_MEDIA_DIR = process.env.LOCAL_MEDIA_DIR;
+
+/**
+ * Risolve un riferimento a file locale dentro LOCAL_MEDIA_DIR
+ * (symlink risolti: il file reale deve stare nella cartella)
+ * @returns path assoluto, null se non consentito o inesistente
+ */
+export async function resolveLocalMediaPath(filePath: unknown): Promise<string | null> {
+  if (!LOCAL_MEDIA_DIR || typeof filePath !== 'string' || filePath.trim() === '') return null;
+
+  try {
+    const root = await fs.promises.realpath(LOCAL_MEDIA_DIR);
+    const resolved = await fs.promises.realpath(path.resolve(root, filePath));
+
+    // Niente path traversal (né symlink) fuori dalla cartella consentita
+    if (!resolved.startsWith(root + path.sep)) return null;
+
+    return (await fs.promises.stat(resolved)).isFile() ? resolved : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Elimina il file temporaneo di un upload multipart
+ */
+export async function removeUploadedFile(filePath: string | undefined): Promise<void> {
+  if (!filePath) return;
+
+  try {
+    await fs.promises.unlink(filePath);
+  } catch (error) {
+    console.warn('⚠️ Impossibile eliminare il file temporaneo:', filePath);
+  }
+}
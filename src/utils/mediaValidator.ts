@@ -0,0 +1,486 @@
+// ============================================
+// MEDIA VALIDATOR
+// Controlli pre-flight sui media (prima di createMediaContainer):
+// raggiungibilità, formato, dimensioni, aspect ratio, durata video
+// ============================================
+
+import axios from 'axios';
+import fs from 'fs';
+import { pathToFileURL } from 'url';
+
+// MEDIA_PREFLIGHT_ENABLED=false disattiva i controlli prima della pubblicazione
+const PREFLIGHT_ENABLED = process.env.MEDIA_PREFLIGHT_ENABLED !== 'false';
+const PROBE_TIMEOUT_MS = Number(process.env.MEDIA_PROBE_TIMEOUT_MS) || 10000;
+const JPEG_HEADER_BYTES = 128 * 1024;
+const MP4_MOOV_MAX_BYTES = 8 * 1024 * 1024;
+const MP4_MAX_TOP_LEVEL_BOXES = 32;
+
+export type MediaTarget = 'feed' | 'carousel' | 'reels' | 'story';
+
+// Limiti Instagram Content Publishing API per destinazione
+export const MEDIA_LIMITS = {
+  IMAGE_CONTENT_TYPES: ['image/jpeg', 'image/jpg'],
+  VIDEO_CONTENT_TYPES: ['video/mp4', 'video/quicktime'],
+  IMAGE_MAX_BYTES: 8 * 1024 * 1024,
+  IMAGE_MIN_ASPECT_RATIO: 4 / 5,
+  IMAGE_MAX_ASPECT_RATIO: 1.91,
+  VIDEO_MAX_WIDTH: 1920,
+  VIDEO: {
+    reels: { maxBytes: 300 * 1024 * 1024, minSeconds: 3, maxSeconds: 15 * 60 },
+    story: { maxBytes: 100 * 1024 * 1024, minSeconds: 3, maxSeconds: 60 },
+    carousel: { maxBytes: 100 * 1024 * 1024, minSeconds: 3, maxSeconds: 60 },
+    feed: { maxBytes: 300 * 1024 * 1024, minSeconds: 3, maxSeconds: 15 * 60 }
+  }
+} as const;
+
+export type MediaViolationCode =
+  | 'UNREACHABLE'
+  | 'UNSUPPORTED_CONTENT_TYPE'
+  | 'FILE_TOO_LARGE'
+  | 'ASPECT_RATIO_OUT_OF_RANGE'
+  | 'VIDEO_TOO_SHORT'
+  | 'VIDEO_TOO_LONG'
+  | 'RESOLUTION_TOO_HIGH';
+
+export interface MediaViolation {
+  field: string;
+  code: MediaViolationCode;
+  message: string;
+  actual?: string | number;
+  expected?: string;
+}
+
+export interface MediaInfo {
+  field: string;
+  url: string;
+  kind: 'image' | 'video';
+  content_type: string | null;
+  size_bytes: number | null;
+  width: number | null;
+  height: number | null;
+  aspect_ratio: number | null;
+  duration_seconds: number | null;
+}
+
+export interface MediaValidationResult {
+  valid: boolean;
+  violations: MediaViolation[];
+  warnings: string[]; // controlli non eseguibili (es: metadati non leggibili)
+  media: MediaInfo[];
+}
+
+export type MediaToValidate = {
+  field: string; // es: "image_url", "items[2].video_url"
+  kind: 'image' | 'video';
+} & (
+  | { url: string; file_path?: never }
+  | { file_path: string; url?: never } // file locale (upload resumable)
+);
+
+// ==========================================
+// HTTP PROBE
+// ==========================================
+
+interface ProbeResult {
+  contentType: string | null;
+  size: number | null;
+}
+
+/**
+ * Accesso ai byte del media: via HTTP (URL pubblico) o da disco (file locale)
+ */
+interface MediaReader {
+  probe(): Promise<ProbeResult>;
+  readRange(start: number, end: number): Promise<Buffer>;
+}
+
+function createReader(item: MediaToValidate): MediaReader {
+  if (item.file_path !== undefined) {
+    const filePath = item.file_path;
+    return {
+      // Nessun content type dichiarato: si ricava dai primi byte
+      probe: async () => ({ contentType: null, size: (await fs.promises.stat(filePath)).size }),
+      readRange: (start, end) => readFileRange(filePath, start, end)
+    };
+  }
+
+  const url = item.url;
+  return { probe: () => probe(url), readRange: (start, end) => readRange(url, start, end) };
+}
+
+async function probe(url: string): Promise<ProbeResult> {
+  try {
+    const response = await axios.head(url, { timeout: PROBE_TIMEOUT_MS });
+    return {
+      contentType: parseContentType(response.headers['content-type']),
+      size: parseSize(response.headers['content-length'])
+    };
+  } catch (error) {
+    // Alcuni host (es: URL firmati) non supportano HEAD: GET del primo byte
+    const response = await axios.get(url, {
+      headers: { Range: 'bytes=0-0' },
+      responseType: 'arraybuffer',
+      timeout: PROBE_TIMEOUT_MS,
+      maxContentLength: JPEG_HEADER_BYTES
+    });
+    const range = String(response.headers['content-range'] || '');
+    return {
+      contentType: parseContentType(response.headers['content-type']),
+      size: parseSize(range.split('/')[1]) ?? (response.status === 200 ? parseSize(response.headers['content-length']) : null)
+    };
+  }
+}
+
+async function readRange(url: string, start: number, end: number): Promise<Buffer> {
+  const response = await axios.get(url, {
+    headers: { Range: `bytes=${start}-${end}` },
+    responseType: 'arraybuffer',
+    timeout: PROBE_TIMEOUT_MS,
+    // Host senza supporto Range: non scaricare l'intero file
+    maxContentLength: end - start + 1 + 1024
+  });
+  return Buffer.from(response.data);
+}
+
+/**
+ * Stessa semantica di una richiesta Range: meno byte se il file finisce prima
+ */
+async function readFileRange(filePath: string, start: number, end: number): Promise<Buffer> {
+  const file = await fs.promises.open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(end - start + 1);
+    const { bytesRead } = await file.read(buffer, 0, buffer.length, start);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await file.close();
+  }
+}
+
+function parseContentType(value: unknown): string | null {
+  return typeof value === 'string' ? value.split(';')[0].trim().toLowerCase() : null;
+}
+
+function parseSize(value: unknown): number | null {
+  const size = Number(value);
+  return Number.isFinite(size) && size > 0 ? size : null;
+}
+
+/**
+ * Content type dai primi byte, se l'host non lo dichiara
+ */
+function sniffContentType(head: Buffer): string | null {
+  if (head.length >= 3 && head[0] === 0xff && head[1] === 0xd8 && head[2] === 0xff) return 'image/jpeg';
+  if (head.length >= 12 && head.toString('latin1', 4, 8) === 'ftyp') {
+    return head.toString('latin1', 8, 10) === 'qt' ? 'video/quicktime' : 'video/mp4';
+  }
+  return null;
+}
+
+// ==========================================
+// METADATA
+// ==========================================
+
+const JPEG_SOF_MARKERS = new Set([0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf]);
+
+/**
+ * Dimensioni JPEG dal marker SOF
+ */
+function readJpegDimensions(buf: Buffer): { width: number; height: number } | null {
+  let i = 2;
+
+  while (i + 9 < buf.length) {
+    if (buf[i] !== 0xff) return null;
+
+    const marker = buf[i + 1];
+    if (JPEG_SOF_MARKERS.has(marker)) {
+      return { height: buf.readUInt16BE(i + 5), width: buf.readUInt16BE(i + 7) };
+    }
+
+    i += 2 + buf.readUInt16BE(i + 2);
+  }
+
+  return null;
+}
+
+interface Mp4Box {
+  type: string;
+  start: number; // inizio del contenuto (dopo l'header)
+  end: number;
+}
+
+function* iterateBoxes(buf: Buffer, start: number, end: number): Generator<Mp4Box> {
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    let size = buf.readUInt32BE(offset);
+    const type = buf.toString('latin1', offset + 4, offset + 8);
+    let header = 8;
+
+    if (size === 1 && offset + 16 <= end) {
+      size = Number(buf.readBigUInt64BE(offset + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+
+    if (size < header) return;
+
+    yield { type, start: offset + header, end: Math.min(offset + size, end) };
+    offset += size;
+  }
+}
+
+/**
+ * Durata (mvhd) e risoluzione (tkhd della traccia video) dal box moov
+ */
+function readMoovMetadata(moov: Buffer): { duration: number | null; width: number | null; height: number | null } {
+  let duration: number | null = null;
+  let width: number | null = null;
+  let height: number | null = null;
+
+  for (const box of iterateBoxes(moov, 0, moov.length)) {
+    if (box.type === 'mvhd') {
+      const version = moov[box.start];
+      const timescale = moov.readUInt32BE(box.start + (version === 1 ? 20 : 12));
+      const units = version === 1
+        ? Number(moov.readBigUInt64BE(box.start + 24))
+        : moov.readUInt32BE(box.start + 16);
+      if (timescale > 0) duration = units / timescale;
+    }
+
+    if (box.type === 'trak' && width === null) {
+      for (const child of iterateBoxes(moov, box.start, box.end)) {
+        if (child.type !== 'tkhd') continue;
+
+        const offset = child.start + (moov[child.start] === 1 ? 88 : 76);
+        if (offset + 8 > child.end) continue;
+
+        // Valori fixed-point 16.16; 0 per le tracce audio
+        const trackWidth = moov.readUInt32BE(offset) >>> 16;
+        const trackHeight = moov.readUInt32BE(offset + 4) >>> 16;
+        if (trackWidth > 0 && trackHeight > 0) {
+          width = trackWidth;
+          height = trackHeight;
+        }
+      }
+    }
+  }
+
+  return { duration, width, height };
+}
+
+/**
+ * Cerca il box moov tra i box di primo livello (può essere in fondo al file)
+ */
+async function readMp4Metadata(reader: MediaReader, size: number | null) {
+  let offset = 0;
+
+  for (let i = 0; i < MP4_MAX_TOP_LEVEL_BOXES && (size === null || offset < size); i++) {
+    const header = await reader.readRange(offset, offset + 15);
+    if (header.length < 8) break;
+
+    let boxSize = header.readUInt32BE(0);
+    const type = header.toString('latin1', 4, 8);
+
+    if (boxSize === 1 && header.length >= 16) boxSize = Number(header.readBigUInt64BE(8));
+    if (boxSize === 0 && size !== null) boxSize = size - offset;
+    if (boxSize < 8) break;
+
+    if (type === 'moov') {
+      if (boxSize > MP4_MOOV_MAX_BYTES) break;
+      const moov = await reader.readRange(offset, offset + boxSize - 1);
+      return readMoovMetadata(moov.subarray(8));
+    }
+
+    offset += boxSize;
+  }
+
+  return null;
+}
+
+// ==========================================
+// VALIDATION
+// ==========================================
+
+async function validateOne(
+  item: MediaToValidate,
+  target: MediaTarget,
+  result: MediaValidationResult
+): Promise<void> {
+  const reader = createReader(item);
+  const info: MediaInfo = {
+    field: item.field,
+    url: item.url ?? pathToFileURL(item.file_path).href,
+    kind: item.kind,
+    content_type: null,
+    size_bytes: null,
+    width: null,
+    height: null,
+    aspect_ratio: null,
+    duration_seconds: null
+  };
+  result.media.push(info);
+
+  const violation = (code: MediaViolationCode, message: string, extra: Partial<MediaViolation> = {}) =>
+    result.violations.push({ field: item.field, code, message, ...extra });
+
+  // Raggiungibilità
+  let probed: ProbeResult;
+  try {
+    probed = await reader.probe();
+  } catch (error) {
+    const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+    violation('UNREACHABLE', `Media non raggiungibile${status ? ` (HTTP ${status})` : ''}`, { actual: status });
+    return;
+  }
+
+  info.size_bytes = probed.size;
+
+  // Primi byte: header JPEG (dimensioni) o sniff del content type
+  let head: Buffer | null = null;
+  try {
+    head = await reader.readRange(0, item.kind === 'image' ? JPEG_HEADER_BYTES - 1 : 15);
+  } catch {
+    result.warnings.push(`${item.field}: impossibile leggere i primi byte del file`);
+  }
+
+  const declared = probed.contentType;
+  info.content_type = declared && declared !== 'application/octet-stream'
+    ? declared
+    : (head && sniffContentType(head)) || declared;
+
+  // Formato
+  const allowed: readonly string[] = item.kind === 'image'
+    ? MEDIA_LIMITS.IMAGE_CONTENT_TYPES
+    : MEDIA_LIMITS.VIDEO_CONTENT_TYPES;
+
+  if (!info.content_type || !allowed.includes(info.content_type)) {
+    violation('UNSUPPORTED_CONTENT_TYPE', item.kind === 'image' ? 'Le immagini devono essere JPEG' : 'I video devono essere MP4 o MOV', {
+      actual: info.content_type ?? undefined,
+      expected: allowed.join(', ')
+    });
+    return;
+  }
+
+  // Peso
+  const maxBytes = item.kind === 'image' ? MEDIA_LIMITS.IMAGE_MAX_BYTES : MEDIA_LIMITS.VIDEO[target].maxBytes;
+
+  if (info.size_bytes === null) {
+    result.warnings.push(`${item.field}: dimensione del file non dichiarata dall'host`);
+  } else if (info.size_bytes > maxBytes) {
+    violation('FILE_TOO_LARGE', `File troppo grande (max ${Math.round(maxBytes / 1024 / 1024)} MB)`, {
+      actual: info.size_bytes,
+      expected: `<= ${maxBytes}`
+    });
+  }
+
+  if (item.kind === 'image') {
+    const dimensions = head ? readJpegDimensions(head) : null;
+
+    if (!dimensions) {
+      result.warnings.push(`${item.field}: dimensioni immagine non leggibili`);
+      return;
+    }
+
+    info.width = dimensions.width;
+    info.height = dimensions.height;
+    info.aspect_ratio = Number((dimensions.width / dimensions.height).toFixed(3));
+
+    // Le storie sono verticali (9:16): il vincolo vale solo per feed e carousel
+    if (
+      target !== 'story' &&
+      (info.aspect_ratio < MEDIA_LIMITS.IMAGE_MIN_ASPECT_RATIO || info.aspect_ratio > MEDIA_LIMITS.IMAGE_MAX_ASPECT_RATIO)
+    ) {
+      violation('ASPECT_RATIO_OUT_OF_RANGE', 'Aspect ratio fuori dai limiti (da 4:5 a 1.91:1)', {
+        actual: info.aspect_ratio,
+        expected: `${MEDIA_LIMITS.IMAGE_MIN_ASPECT_RATIO} - ${MEDIA_LIMITS.IMAGE_MAX_ASPECT_RATIO}`
+      });
+    }
+    return;
+  }
+
+  // Video: durata e risoluzione dal box moov
+  let metadata: Awaited<ReturnType<typeof readMp4Metadata>> = null;
+  try {
+    metadata = await readMp4Metadata(reader, info.size_bytes);
+  } catch {
+    metadata = null;
+  }
+
+  if (!metadata) {
+    result.warnings.push(`${item.field}: metadati video non leggibili (durata e risoluzione non verificate)`);
+    return;
+  }
+
+  const limits = MEDIA_LIMITS.VIDEO[target];
+  info.width = metadata.width;
+  info.height = metadata.height;
+  info.aspect_ratio = metadata.width && metadata.height ? Number((metadata.width / metadata.height).toFixed(3)) : null;
+  info.duration_seconds = metadata.duration !== null ? Number(metadata.duration.toFixed(2)) : null;
+
+  if (info.duration_seconds !== null && info.duration_seconds < limits.minSeconds) {
+    violation('VIDEO_TOO_SHORT', `Video troppo corto (min ${limits.minSeconds}s)`, {
+      actual: info.duration_seconds,
+      expected: `>= ${limits.minSeconds}`
+    });
+  }
+
+  if (info.duration_seconds !== null && info.duration_seconds > limits.maxSeconds) {
+    violation('VIDEO_TOO_LONG', `Video troppo lungo (max ${limits.maxSeconds}s)`, {
+      actual: info.duration_seconds,
+      expected: `<= ${limits.maxSeconds}`
+    });
+  }
+
+  if (info.width !== null && info.width > MEDIA_LIMITS.VIDEO_MAX_WIDTH) {
+    violation('RESOLUTION_TOO_HIGH', `Risoluzione orizzontale troppo alta (max ${MEDIA_LIMITS.VIDEO_MAX_WIDTH}px)`, {
+      actual: `${info.width}x${info.height}`,
+      expected: `larghezza <= ${MEDIA_LIMITS.VIDEO_MAX_WIDTH}`
+    });
+  }
+}
+
+/**
+ * Valida i media di un post per la destinazione indicata
+ */
+export async function validateMedia(items: MediaToValidate[], target: MediaTarget): Promise<MediaValidationResult> {
+  const result: MediaValidationResult = { valid: true, violations: [], warnings: [], media: [] };
+
+  for (const item of items) {
+    await validateOne(item, target, result);
+  }
+
+  result.valid = result.violations.length === 0;
+  return result;
+}
+
+/**
+ * Media non conformi trovati dai controlli pre-flight
+ */
+export class MediaValidationError extends Error {
+  constructor(readonly result: MediaValidationResult) {
+    super(`Media non conformi ai requisiti Instagram: ${result.violations.map(v => `${v.field}: ${v.message}`).join('; ')}`);
+    this.name = 'MediaValidationError';
+  }
+}
+
+/**
+ * Controlli pre-flight, eseguiti nel job di pubblicazione prima di creare il container
+ * (nessun controllo se disattivati da configurazione)
+ * @throws MediaValidationError se ci sono violazioni
+ */
+export async function preflightMedia(items: MediaToValidate[], target: MediaTarget): Promise<void> {
+  if (!PREFLIGHT_ENABLED || items.length === 0) return;
+
+  const result = await validateMedia(items, target);
+  if (!result.valid) throw new MediaValidationError(result);
+}
+
+/**
+ * Media da validare di un carousel (campo con indice dell'elemento)
+ */
+export function carouselMediaToValidate(items: Array<{ image_url?: string; video_url?: string }>): MediaToValidate[] {
+  return items.map((item, i) => item.video_url
+    ? { field: `items[${i}].video_url`, url: item.video_url, kind: 'video' as const }
+    : { field: `items[${i}].image_url`, url: item.image_url || '', kind: 'image' as const });
+}
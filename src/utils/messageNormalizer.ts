@@ -0,0 +1,293 @@
+// ============================================
+// MESSAGE NORMALIZER
+// Converte i messaggi Instagram (webhook) in IvotMessagePayload
+// ============================================
+
+import type {
+  IvotMessageAttachment,
+  IvotMessagePayload,
+  IvotMessageType,
+  IvotPostbackPayload,
+  IvotReactionPayload,
+  IvotReadPayload
+} from './ivotNotifier.js';
+import type { GraphMessage } from '../services/instagramService.js';
+
+type MessagingEvent = { sender: any; recipient: any; timestamp: any; [key: string]: any };
+
+/**
+ * Tipo attachment Instagram → tipo messaggio IVOT
+ */
+const ATTACHMENT_TYPE_MAP: Record<string, IvotMessageType> = {
+  image: 'image',
+  video: 'video',
+  audio: 'audio',
+  file: 'file',
+  share: 'share',
+  ig_post: 'share',
+  ig_reel: 'reel',
+  reel: 'reel',
+  story_mention: 'story_mention',
+  like_heart: 'sticker',
+  sticker: 'sticker'
+};
+
+/**
+ * Normalizza gli attachment: url sempre al primo livello, payload originale conservato
+ */
+export function normalizeAttachments(attachments: any[] | undefined): IvotMessageAttachment[] {
+  if (!Array.isArray(attachments)) return [];
+
+  return attachments.map(attachment => {
+    // Gli sticker arrivano come "image" con sticker_id nel payload
+    const type = attachment?.payload?.sticker_id ? 'sticker' : attachment?.type || 'unknown';
+
+    return {
+      type,
+      url: attachment?.payload?.url,
+      payload: attachment?.payload
+    };
+  });
+}
+
+/**
+ * Determina il tipo del messaggio (il primo match vince)
+ */
+export function detectMessageType(message: any, attachments: IvotMessageAttachment[]): IvotMessageType {
+  if (message?.is_deleted) return 'deleted';
+  if (message?.is_unsupported) return 'unsupported';
+  if (message?.quick_reply) return 'quick_reply';
+  if (message?.referral) return 'referral';
+  if (message?.reply_to?.story) return 'story_reply';
+
+  if (attachments.length > 0) {
+    return ATTACHMENT_TYPE_MAP[attachments[0].type] || 'unsupported';
+  }
+
+  return 'text';
+}
+
+/**
+ * Costruisce il payload IVOT da un evento messaging Instagram
+ * @param instagramAccountId Account business che riceve il webhook
+ * @param msg Evento messaging ({ sender, recipient, timestamp, message })
+ * @param webhookTime entry.time del webhook
+ */
+export function normalizeInstagramMessage(
+  instagramAccountId: string,
+  msg: MessagingEvent,
+  webhookTime: number
+): IvotMessagePayload {
+  const message = msg.message || {};
+  const isEcho = Boolean(message.is_echo || message.is_self);
+  const attachments = normalizeAttachments(message.attachments);
+  const type = detectMessageType(message, attachments);
+
+  // La conversazione è identificata dall'utente con cui parla l'account business
+  const counterpartId = isEcho ? msg.recipient?.id : msg.sender?.id;
+
+  const payload: IvotMessagePayload = {
+    instagram_account_id: instagramAccountId,
+    sender_id: msg.sender?.id || 'unknown',
+    sender_username: msg.sender?.username,
+    conversation_id: counterpartId || 'unknown',
+    message: {
+      id: message.mid,
+      text: message.text,
+      attachments: attachments.length > 0 ? attachments : undefined,
+      timestamp: parseInt(msg.timestamp) || Date.now(),
+      type
+    },
+    is_echo: isEcho,
+    is_deleted: Boolean(message.is_deleted),
+    is_unsupported: Boolean(message.is_unsupported),
+    webhook_event_type: message.is_deleted ? 'message_deleted' : isEcho ? 'message_echo' : 'message',
+    webhook_received_at: new Date().toISOString(),
+    instagram_webhook_time: webhookTime
+  };
+
+  if (message.reply_to) {
+    payload.message.reply_to = {
+      mid: message.reply_to.mid,
+      story: message.reply_to.story
+        ? { id: message.reply_to.story.id, url: message.reply_to.story.url }
+        : undefined
+    };
+  }
+
+  if (message.quick_reply) {
+    payload.message.quick_reply = { payload: message.quick_reply.payload };
+  }
+
+  if (message.referral) {
+    payload.message.referral = {
+      ref: message.referral.ref,
+      source: message.referral.source,
+      type: message.referral.type,
+      ads_context_data: message.referral.ads_context_data
+    };
+  }
+
+  return payload;
+}
+
+/**
+ * Reaction a un messaggio (react/unreact)
+ */
+export function normalizeReaction(
+  instagramAccountId: string,
+  msg: MessagingEvent,
+  webhookTime: number
+): IvotReactionPayload {
+  const reaction = msg.reaction || {};
+
+  return {
+    instagram_account_id: instagramAccountId,
+    sender_id: msg.sender?.id || 'unknown',
+    conversation_id: msg.sender?.id || 'unknown',
+    reaction: {
+      message_id: reaction.mid,
+      action: reaction.action === 'unreact' ? 'unreact' : 'react',
+      reaction: reaction.reaction,
+      emoji: reaction.emoji
+    },
+    timestamp: parseInt(msg.timestamp) || Date.now(),
+    webhook_event_type: 'reaction',
+    webhook_received_at: new Date().toISOString(),
+    instagram_webhook_time: webhookTime
+  };
+}
+
+/**
+ * Conferma di lettura (mid su Instagram, watermark su Messenger)
+ */
+export function normalizeRead(
+  instagramAccountId: string,
+  msg: MessagingEvent,
+  webhookTime: number
+): IvotReadPayload {
+  const read = msg.read || {};
+
+  return {
+    instagram_account_id: instagramAccountId,
+    sender_id: msg.sender?.id || 'unknown',
+    conversation_id: msg.sender?.id || 'unknown',
+    read: {
+      message_id: read.mid,
+      watermark: read.watermark !== undefined ? Number(read.watermark) : undefined
+    },
+    timestamp: parseInt(msg.timestamp) || Date.now(),
+    webhook_event_type: 'read',
+    webhook_received_at: new Date().toISOString(),
+    instagram_webhook_time: webhookTime
+  };
+}
+
+/**
+ * Postback da icebreaker o bottoni dei template
+ */
+export function normalizePostback(
+  instagramAccountId: string,
+  msg: MessagingEvent,
+  webhookTime: number
+): IvotPostbackPayload {
+  const postback = msg.postback || {};
+
+  return {
+    instagram_account_id: instagramAccountId,
+    sender_id: msg.sender?.id || 'unknown',
+    conversation_id: msg.sender?.id || 'unknown',
+    postback: {
+      message_id: postback.mid,
+      title: postback.title,
+      payload: postback.payload || '',
+      referral: postback.referral
+        ? { ref: postback.referral.ref, source: postback.referral.source, type: postback.referral.type }
+        : undefined
+    },
+    timestamp: parseInt(msg.timestamp) || Date.now(),
+    webhook_event_type: 'postback',
+    webhook_received_at: new Date().toISOString(),
+    instagram_webhook_time: webhookTime
+  };
+}
+
+/**
+ * Attachment della Graph API (conversations) → attachment IVOT
+ */
+function normalizeGraphAttachment(attachment: any): IvotMessageAttachment {
+  if (attachment?.image_data) {
+    return {
+      type: attachment.image_data.render_as_sticker ? 'sticker' : 'image',
+      url: attachment.image_data.url,
+      payload: attachment
+    };
+  }
+  if (attachment?.video_data) {
+    return { type: 'video', url: attachment.video_data.url, payload: attachment };
+  }
+  if (attachment?.audio_data) {
+    return { type: 'audio', url: attachment.audio_data.url, payload: attachment };
+  }
+  return { type: 'file', url: attachment?.file_url, payload: attachment };
+}
+
+/**
+ * Messaggio letto dalla Graph API (storico conversazioni) → IvotMessagePayload.
+ * conversation_id è l'IGSID dell'interlocutore, come nei webhook
+ * @param instagramAccountId Account business proprietario della conversazione
+ */
+export function normalizeGraphMessage(
+  instagramAccountId: string,
+  graphMessage: GraphMessage
+): IvotMessagePayload {
+  const senderId = graphMessage.from?.id || 'unknown';
+  const isEcho = senderId === instagramAccountId;
+  const counterpartId = isEcho ? graphMessage.to?.data?.[0]?.id : senderId;
+
+  const attachments: IvotMessageAttachment[] = [
+    ...(graphMessage.attachments?.data || []).map(normalizeGraphAttachment),
+    ...(graphMessage.shares?.data || []).map(share => ({ type: 'share', url: share.link, payload: share }))
+  ];
+
+  const storyMention = graphMessage.story?.mention;
+  const storyReply = graphMessage.story?.reply_to;
+
+  if (storyMention) {
+    attachments.unshift({ type: 'story_mention', url: storyMention.link, payload: storyMention });
+  }
+
+  let type: IvotMessageType;
+  if (graphMessage.is_unsupported) {
+    type = 'unsupported';
+  } else if (storyReply) {
+    type = 'story_reply';
+  } else if (attachments.length > 0) {
+    type = ATTACHMENT_TYPE_MAP[attachments[0].type] || 'unsupported';
+  } else {
+    type = 'text';
+  }
+
+  const timestamp = Date.parse(graphMessage.created_time) || Date.now();
+
+  return {
+    instagram_account_id: instagramAccountId,
+    sender_id: senderId,
+    sender_username: graphMessage.from?.username,
+    conversation_id: counterpartId || 'unknown',
+    message: {
+      id: graphMessage.id,
+      text: graphMessage.message || undefined,
+      attachments: attachments.length > 0 ? attachments : undefined,
+      timestamp,
+      type,
+      reply_to: storyReply ? { story: { id: storyReply.id, url: storyReply.link } } : undefined
+    },
+    is_echo: isEcho,
+    is_deleted: false,
+    is_unsupported: Boolean(graphMessage.is_unsupported),
+    webhook_event_type: 'message_history',
+    webhook_received_at: new Date().toISOString(),
+    instagram_webhook_time: Math.floor(timestamp / 1000)
+  };
+}
@@ -0,0 +1,78 @@
+// ============================================
+// NONCE STORE
+// Nonce degli state OAuth già consumati:
+// uno state firmato vale per un solo callback
+// ============================================
+
+import { JsonFileStore } from './jsonFileStore.js';
+
+const NONCE_STORE = process.env.OAUTH_NONCE_STORE || 'memory'; // memory | file
+
+export interface NonceStore {
+  /**
+   * Consuma il nonce se non già usato; resta registrato per ttlMs
+   * @returns true se il nonce è nuovo, false se è già stato consumato
+   */
+  consume(nonce: string, ttlMs: number): Promise<boolean>;
+}
+
+/**
+ * Store in memoria (perso al riavvio, una sola istanza)
+ */
+export class MemoryNonceStore implements NonceStore {
+  private readonly entries = new Map<string, number>();
+
+  async consume(nonce: string, ttlMs: number): Promise<boolean> {
+    const now = Date.now();
+    this.prune(now);
+
+    if (this.entries.has(nonce)) return false;
+
+    this.entries.set(nonce, now + ttlMs);
+    return true;
+  }
+
+  private prune(now: number): void {
+    for (const [nonce, expiresAt] of this.entries) {
+      if (expiresAt <= now) this.entries.delete(nonce);
+    }
+  }
+}
+
+/**
+ * Store su file JSON (sopravvive ai riavvii)
+ */
+export class FileNonceStore implements NonceStore {
+  private readonly store = new JsonFileStore<Record<string, number>>('oauth-nonces.json', () => ({}));
+  private readonly entries: Record<string, number> = this.store.read();
+
+  async consume(nonce: string, ttlMs: number): Promise<boolean> {
+    const now = Date.now();
+
+    for (const [storedNonce, expiresAt] of Object.entries(this.entries)) {
+      if (expiresAt <= now) delete this.entries[storedNonce];
+    }
+
+    if (this.entries[nonce] !== undefined) return false;
+
+    this.entries[nonce] = now + ttlMs;
+
+    // Se non riesco a salvare, il nonce non è davvero consumato: meglio rifiutare
+    this.store.write(this.entries);
+
+    return true;
+  }
+}
+
+let nonceStore: NonceStore = NONCE_STORE === 'file' ? new FileNonceStore() : new MemoryNonceStore();
+
+/**
+ * Sostituisce lo store (es: Redis condiviso tra più istanze)
+ */
+export function setNonceStore(store: NonceStore): void {
+  nonceStore = store;
+}
+
+export function getNonceStore(): NonceStore {
+  return nonceStore;
+}
@@ -0,0 +1,249 @@
+// ============================================
+// OUTBOUND MESSAGE
+// Messaggi in uscita (send-message): tipi, validazione
+// e conversione nel formato della Messaging API
+// ============================================
+
+import { isNonEmptyString, isValidUrl } from './validators.js';
+
+// Limiti Instagram Messaging API
+export const MESSAGE_LIMITS = {
+  TEXT_MAX_BYTES: 1000, // byte UTF-8, non caratteri
+  QUICK_REPLIES_MAX: 13,
+  QUICK_REPLY_TITLE_MAX_LENGTH: 20,
+  PAYLOAD_MAX_LENGTH: 1000,
+  TEMPLATE_ELEMENTS_MAX: 10,
+  TEMPLATE_TITLE_MAX_LENGTH: 80,
+  TEMPLATE_SUBTITLE_MAX_LENGTH: 80,
+  BUTTONS_MAX: 3,
+  BUTTON_TITLE_MAX_LENGTH: 20
+} as const;
+
+export interface QuickReply {
+  title: string;
+  payload: string;
+}
+
+export type TemplateButton =
+  | { type: 'web_url'; title: string; url: string }
+  | { type: 'postback'; title: string; payload: string };
+
+export interface GenericTemplateElement {
+  title: string;
+  subtitle?: string;
+  image_url?: string;
+  default_action_url?: string;
+  buttons?: TemplateButton[];
+}
+
+export type OutboundMessage =
+  | { type: 'text'; text: string; quick_replies?: QuickReply[] }
+  | { type: 'image' | 'video' | 'audio'; url: string }
+  | { type: 'sticker'; url?: string } // senza url → like_heart
+  | { type: 'media_share'; media_id: string }
+  | { type: 'generic_template'; elements: GenericTemplateElement[] }
+  | { type: 'button_template'; text: string; buttons: TemplateButton[] };
+
+export interface OutboundMessageValidation {
+  valid: boolean;
+  errors: string[];
+  message?: OutboundMessage;
+}
+
+function validateButtons(buttons: unknown, path: string, errors: string[]): void {
+  if (!Array.isArray(buttons) || buttons.length === 0) {
+    errors.push(`${path} deve essere un array non vuoto`);
+    return;
+  }
+
+  if (buttons.length > MESSAGE_LIMITS.BUTTONS_MAX) {
+    errors.push(`${path}: massimo ${MESSAGE_LIMITS.BUTTONS_MAX} bottoni`);
+  }
+
+  buttons.forEach((button: any, i) => {
+    if (!isNonEmptyString(button?.title) || button.title.length > MESSAGE_LIMITS.BUTTON_TITLE_MAX_LENGTH) {
+      errors.push(`${path}[${i}].title obbligatorio (max ${MESSAGE_LIMITS.BUTTON_TITLE_MAX_LENGTH} caratteri)`);
+    }
+
+    if (button?.type === 'web_url') {
+      if (!isValidUrl(button.url)) errors.push(`${path}[${i}].url non valido`);
+    } else if (button?.type === 'postback') {
+      if (!isNonEmptyString(button.payload) || button.payload.length > MESSAGE_LIMITS.PAYLOAD_MAX_LENGTH) {
+        errors.push(`${path}[${i}].payload obbligatorio (max ${MESSAGE_LIMITS.PAYLOAD_MAX_LENGTH} caratteri)`);
+      }
+    } else {
+      errors.push(`${path}[${i}].type deve essere "web_url" o "postback"`);
+    }
+  });
+}
+
+function validateText(text: unknown, path: string, errors: string[]): void {
+  if (!isNonEmptyString(text)) {
+    errors.push(`${path} obbligatorio`);
+  } else {
+    // Emoji e caratteri accentati occupano più byte: .length li sottostima
+    const bytes = Buffer.byteLength(text, 'utf8');
+    if (bytes > MESSAGE_LIMITS.TEXT_MAX_BYTES) {
+      errors.push(`${path} supera ${MESSAGE_LIMITS.TEXT_MAX_BYTES} byte UTF-8 (${bytes})`);
+    }
+  }
+}
+
+/**
+ * Valida il body `message` di send-message.
+ * Una stringa semplice è accettata come { type: 'text' } (retrocompatibilità)
+ */
+export function validateOutboundMessage(input: unknown): OutboundMessageValidation {
+  const errors: string[] = [];
+  const message: any = typeof input === 'string' ? { type: 'text', text: input } : input;
+
+  if (!message || typeof message !== 'object') {
+    return { valid: false, errors: ['message deve essere una stringa o un oggetto con "type"'] };
+  }
+
+  switch (message.type) {
+    case 'text':
+      validateText(message.text, 'message.text', errors);
+
+      if (message.quick_replies !== undefined) {
+        if (!Array.isArray(message.quick_replies) || message.quick_replies.length === 0) {
+          errors.push('message.quick_replies deve essere un array non vuoto');
+        } else {
+          if (message.quick_replies.length > MESSAGE_LIMITS.QUICK_REPLIES_MAX) {
+            errors.push(`message.quick_replies: massimo ${MESSAGE_LIMITS.QUICK_REPLIES_MAX} quick reply`);
+          }
+
+          message.quick_replies.forEach((reply: any, i: number) => {
+            if (!isNonEmptyString(reply?.title) || reply.title.length > MESSAGE_LIMITS.QUICK_REPLY_TITLE_MAX_LENGTH) {
+              errors.push(`message.quick_replies[${i}].title obbligatorio (max ${MESSAGE_LIMITS.QUICK_REPLY_TITLE_MAX_LENGTH} caratteri)`);
+            }
+            if (!isNonEmptyString(reply?.payload) || reply.payload.length > MESSAGE_LIMITS.PAYLOAD_MAX_LENGTH) {
+              errors.push(`message.quick_replies[${i}].payload obbligatorio (max ${MESSAGE_LIMITS.PAYLOAD_MAX_LENGTH} caratteri)`);
+            }
+          });
+        }
+      }
+      break;
+
+    case 'image':
+    case 'video':
+    case 'audio':
+      if (!isValidUrl(message.url)) errors.push('message.url non valido');
+      break;
+
+    case 'sticker':
+      if (message.url !== undefined && !isValidUrl(message.url)) errors.push('message.url non valido');
+      break;
+
+    case 'media_share':
+      if (!isNonEmptyString(message.media_id)) errors.push('message.media_id obbligatorio');
+      break;
+
+    case 'generic_template':
+      if (!Array.isArray(message.elements) || message.elements.length === 0) {
+        errors.push('message.elements deve essere un array non vuoto');
+        break;
+      }
+
+      if (message.elements.length > MESSAGE_LIMITS.TEMPLATE_ELEMENTS_MAX) {
+        errors.push(`message.elements: massimo ${MESSAGE_LIMITS.TEMPLATE_ELEMENTS_MAX} elementi`);
+      }
+
+      message.elements.forEach((element: any, i: number) => {
+        const path = `message.elements[${i}]`;
+
+        if (!isNonEmptyString(element?.title) || element.title.length > MESSAGE_LIMITS.TEMPLATE_TITLE_MAX_LENGTH) {
+          errors.push(`${path}.title obbligatorio (max ${MESSAGE_LIMITS.TEMPLATE_TITLE_MAX_LENGTH} caratteri)`);
+        }
+        if (element?.subtitle !== undefined &&
+            (typeof element.subtitle !== 'string' || element.subtitle.length > MESSAGE_LIMITS.TEMPLATE_SUBTITLE_MAX_LENGTH)) {
+          errors.push(`${path}.subtitle max ${MESSAGE_LIMITS.TEMPLATE_SUBTITLE_MAX_LENGTH} caratteri`);
+        }
+        if (element?.image_url !== undefined && !isValidUrl(element.image_url)) {
+          errors.push(`${path}.image_url non valido`);
+        }
+        if (element?.default_action_url !== undefined && !isValidUrl(element.default_action_url)) {
+          errors.push(`${path}.default_action_url non valido`);
+        }
+        if (element?.buttons !== undefined) {
+          validateButtons(element.buttons, `${path}.buttons`, errors);
+        }
+      });
+      break;
+
+    case 'button_template':
+      validateText(message.text, 'message.text', errors);
+      validateButtons(message.buttons, 'message.buttons', errors);
+      break;
+
+    default:
+      errors.push('message.type deve essere uno tra: text, image, video, audio, sticker, media_share, generic_template, button_template');
+  }
+
+  return errors.length > 0
+    ? { valid: false, errors }
+    : { valid: true, errors, message: message as OutboundMessage };
+}
+
+/**
+ * Converte il messaggio nel campo `message` della Messaging API
+ */
+export function toGraphMessage(message: OutboundMessage): Record<string, any> {
+  switch (message.type) {
+    case 'text':
+      return {
+        text: message.text,
+        ...(message.quick_replies && {
+          quick_replies: message.quick_replies.map(reply => ({
+            content_type: 'text',
+            title: reply.title,
+            payload: reply.payload
+          }))
+        })
+      };
+
+    case 'image':
+    case 'video':
+    case 'audio':
+      return { attachment: { type: message.type, payload: { url: message.url } } };
+
+    case 'sticker':
+      return message.url
+        ? { attachment: { type: 'image', payload: { url: message.url } } }
+        : { attachment: { type: 'like_heart' } };
+
+    case 'media_share':
+      return { attachment: { type: 'MEDIA_SHARE', payload: { id: message.media_id } } };
+
+    case 'generic_template':
+      return {
+        attachment: {
+          type: 'template',
+          payload: {
+            template_type: 'generic',
+            elements: message.elements.map(element => ({
+              title: element.title,
+              subtitle: element.subtitle,
+              image_url: element.image_url,
+              default_action: element.default_action_url
+                ? { type: 'web_url', url: element.default_action_url }
+                : undefined,
+              buttons: element.buttons
+            }))
+          }
+        }
+      };
+
+    case 'button_template':
+      return {
+        attachment: {
+          type: 'template',
+          payload: {
+            template_type: 'button',
+            text: message.text,
+            buttons: message.buttons
+          }
+        }
+      };
+  }
+}
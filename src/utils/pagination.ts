@@ -0,0 +1,26 @@
+// ============================================
+// PAGINATION
+// Paginazione a cursore della Graph API
+// ============================================
+
+import type { Request } from 'express';
+import type { GraphPage } from '../services/instagramService.js';
+
+/**
+ * Legge limit/after dalla query (limit tra 1 e 100, default 25)
+ */
+export function readPageParams(req: Request): { limit: number; after?: string } {
+  const limit = Math.min(Math.max(Number(req.query['limit']) || 25, 1), 100);
+  const after = (req.query['after'] as string) || undefined;
+  return { limit, after };
+}
+
+/**
+ * Paging normalizzato restituito ai client
+ */
+export function toPaging(page: GraphPage<unknown>): { after: string | null; has_more: boolean } {
+  return {
+    after: page.paging?.cursors?.after || null,
+    has_more: Boolean(page.paging?.next)
+  };
+}
@@ -0,0 +1,71 @@
+// ============================================
+// PRIVATE REPLY TRACKER
+// Instagram consente UNA sola risposta privata per commento
+// (entro 7 giorni): teniamo traccia dei commenti già risposti
+// ============================================
+
+import { JsonFileStore } from './jsonFileStore.js';
+
+// Oltre i 7 giorni Instagram rifiuta comunque la risposta
+const RETENTION_MS = 8 * 24 * 60 * 60 * 1000;
+
+export interface PrivateReplyRecord {
+  comment_id: string;
+  instagram_account_id: string;
+  message_id: string;
+  recipient_id?: string;
+  replied_at: string;
+}
+
+const store = new JsonFileStore<Record<string, PrivateReplyRecord>>('private-replies.json', () => ({}));
+const replies = store.read();
+
+// Commenti con invio in corso (evita doppio invio concorrente)
+const pending = new Set<string>();
+
+function persist(): void {
+  const cutoff = Date.now() - RETENTION_MS;
+
+  for (const [commentId, record] of Object.entries(replies)) {
+    if (Date.parse(record.replied_at) < cutoff) delete replies[commentId];
+  }
+
+  try {
+    store.write(replies);
+  } catch (error) {
+    console.error('[PRIVATE_REPLY] ❌ Impossibile salvare lo store su disco:', error);
+  }
+}
+
+export function getPrivateReply(commentId: string): PrivateReplyRecord | undefined {
+  return replies[commentId];
+}
+
+/**
+ * Prenota il commento per l'invio
+ * @returns false se già risposto o con un invio in corso
+ */
+export function reservePrivateReply(commentId: string): boolean {
+  if (replies[commentId] || pending.has(commentId)) {
+    return false;
+  }
+
+  pending.add(commentId);
+  return true;
+}
+
+/**
+ * Registra la risposta inviata con successo
+ */
+export function confirmPrivateReply(record: PrivateReplyRecord): void {
+  pending.delete(record.comment_id);
+  replies[record.comment_id] = record;
+  persist();
+}
+
+/**
+ * Libera la prenotazione dopo un invio fallito
+ */
+export function releasePrivateReply(commentId: string): void {
+  pending.delete(commentId);
+}
@@ -0,0 +1,78 @@
+// ============================================
+// PUBLISH JOB RESPONSE
+// Helper HTTP comuni ai controller di pubblicazione asincrona
+// ============================================
+
+import type { Request, Response } from 'express';
+import type { PublishJob } from '../services/publishJobService.js';
+
+// Host ammessi per callback_url (es: "api.ivot.it,hooks.ivot.it"): il servizio
+// fa POST verso questi URL, un host arbitrario sarebbe un SSRF.
+// Default (variabile vuota): nessun host ammesso, callback_url sempre rifiutato
+const CALLBACK_ALLOWED_HOSTS = new Set(
+  (process.env.PUBLISH_CALLBACK_ALLOWED_HOSTS || '')
+    .split(',')
+    .map(host => host.trim().toLowerCase())
+    .filter(Boolean)
+);
+
+export interface CallbackUrlCheck {
+  valid: boolean;
+  url?: string; // assente se callback_url non è stato passato
+  reason?: string;
+}
+
+/**
+ * Legge il callback_url opzionale (notificato a fine job)
+ */
+export function readCallbackUrl(req: Request): CallbackUrlCheck {
+  const callbackUrl = req.body.callback_url;
+  if (callbackUrl === undefined || callbackUrl === '') return { valid: true };
+
+  let url: URL;
+  try {
+    url = new URL(callbackUrl);
+  } catch {
+    return { valid: false, reason: 'URL non valido' };
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    return { valid: false, reason: 'Protocollo non ammesso (solo http/https)' };
+  }
+
+  if (url.username || url.password) {
+    return { valid: false, reason: 'Credenziali non ammesse nell\'URL' };
+  }
+
+  if (CALLBACK_ALLOWED_HOSTS.size === 0) {
+    console.warn('[PUBLISH_JOB] 🚫 callback_url rifiutato: PUBLISH_CALLBACK_ALLOWED_HOSTS non configurato');
+    return { valid: false, reason: 'Callback disabilitati: PUBLISH_CALLBACK_ALLOWED_HOSTS non configurato' };
+  }
+
+  if (!CALLBACK_ALLOWED_HOSTS.has(url.hostname.toLowerCase())) {
+    console.warn('[PUBLISH_JOB] 🚫 callback_url rifiutato (host non in PUBLISH_CALLBACK_ALLOWED_HOSTS):', url.hostname);
+    return { valid: false, reason: `Host "${url.hostname}" non presente in PUBLISH_CALLBACK_ALLOWED_HOSTS` };
+  }
+
+  return { valid: true, url: url.toString() };
+}
+
+/**
+ * Risposta 202 per un job di pubblicazione appena creato
+ */
+export function acceptPublishJob(
+  req: Request,
+  res: Response,
+  job: PublishJob,
+  message: string,
+  extra: Record<string, unknown> = {}
+) {
+  return res.status(202).json({
+    success: true,
+    job_id: job.id,
+    stage: job.stage,
+    status_url: `${req.baseUrl}/publish/jobs/${job.id}`,
+    message,
+    ...extra
+  });
+}
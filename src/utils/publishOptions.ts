@@ -0,0 +1,257 @@
+// ============================================
+// PUBLISH OPTIONS
+// Opzioni dei media container (immagini, Reels, carousel): tipi e validazione
+// ============================================
+
+import { isNonEmptyString, isValidUrl } from './validators.js';
+
+// Limiti Instagram Content Publishing API
+export const PUBLISH_LIMITS = {
+  COLLABORATORS_MAX: 3,
+  USER_TAGS_MAX: 20,
+  AUDIO_NAME_MAX_LENGTH: 100,
+  ALT_TEXT_MAX_LENGTH: 1000,
+  CAROUSEL_ITEMS_MIN: 2,
+  CAROUSEL_ITEMS_MAX: 10
+} as const;
+
+export const TRIAL_GRADUATION_STRATEGIES = ['MANUAL', 'SS_PERFORMANCE'] as const;
+
+export type TrialGraduationStrategy = typeof TRIAL_GRADUATION_STRATEGIES[number];
+
+export interface UserTag {
+  username: string;
+  x?: number;
+  y?: number;
+}
+
+export interface ReelsOptions {
+  cover_url?: string;
+  location_id?: string;
+  share_to_feed?: boolean;
+  thumb_offset?: number; // millisecondi dall'inizio del video
+  audio_name?: string;
+  collaborators?: string[];
+  user_tags?: UserTag[]; // nei Reels solo username, senza coordinate
+  trial_params?: { graduation_strategy: TrialGraduationStrategy };
+}
+
+export interface ImageOptions {
+  location_id?: string;
+  user_tags?: UserTag[]; // coordinate x/y obbligatorie
+  alt_text?: string;
+  collaborators?: string[];
+}
+
+export interface CarouselItem {
+  image_url?: string;
+  video_url?: string;
+  user_tags?: UserTag[]; // coordinate x/y obbligatorie per le immagini
+  alt_text?: string; // solo immagini
+}
+
+export interface PublishOptionsValidation<T> {
+  valid: boolean;
+  errors: string[];
+  options?: T;
+}
+
+// Gli username si accettano anche con "@" davanti
+const normalizeUsername = (value: string) => value.trim().replace(/^@/, '');
+
+function validateCollaborators(value: unknown, errors: string[]): string[] | undefined {
+  if (!Array.isArray(value) || value.some(item => !isNonEmptyString(item))) {
+    errors.push('collaborators deve essere un array di username');
+    return undefined;
+  }
+
+  if (value.length > PUBLISH_LIMITS.COLLABORATORS_MAX) {
+    errors.push(`collaborators: massimo ${PUBLISH_LIMITS.COLLABORATORS_MAX} collaboratori`);
+  }
+
+  return value.map(normalizeUsername);
+}
+
+const isCoordinate = (value: unknown): value is number =>
+  typeof value === 'number' && value >= 0 && value <= 1;
+
+/**
+ * Valida i tag utente: nelle immagini servono le coordinate x/y (0–1),
+ * nei video solo lo username
+ */
+function validateUserTags(
+  value: unknown,
+  path: string,
+  errors: string[],
+  withCoordinates: boolean
+): UserTag[] | undefined {
+  if (!Array.isArray(value)) {
+    errors.push(`${path} deve essere un array`);
+    return undefined;
+  }
+
+  if (value.length > PUBLISH_LIMITS.USER_TAGS_MAX) {
+    errors.push(`${path}: massimo ${PUBLISH_LIMITS.USER_TAGS_MAX} tag`);
+  }
+
+  value.forEach((tag: any, i) => {
+    if (!isNonEmptyString(tag?.username)) errors.push(`${path}[${i}].username obbligatorio`);
+
+    if (withCoordinates && (!isCoordinate(tag?.x) || !isCoordinate(tag?.y))) {
+      errors.push(`${path}[${i}]: x e y obbligatori, tra 0 e 1`);
+    }
+  });
+
+  return value.map((tag: any) => ({
+    username: normalizeUsername(String(tag?.username ?? '')),
+    ...(withCoordinates && { x: tag?.x, y: tag?.y })
+  }));
+}
+
+function validateAltText(value: unknown, path: string, errors: string[]): string | undefined {
+  if (!isNonEmptyString(value) || value.length > PUBLISH_LIMITS.ALT_TEXT_MAX_LENGTH) {
+    errors.push(`${path} non valido (max ${PUBLISH_LIMITS.ALT_TEXT_MAX_LENGTH} caratteri)`);
+    return undefined;
+  }
+
+  return value;
+}
+
+/**
+ * Valida le opzioni di un post immagine
+ */
+export function validateImageOptions(input: any): PublishOptionsValidation<ImageOptions> {
+  const errors: string[] = [];
+  const options: ImageOptions = {};
+
+  if (input.location_id !== undefined) {
+    if (!isNonEmptyString(input.location_id)) errors.push('location_id non valido');
+    options.location_id = input.location_id;
+  }
+
+  if (input.user_tags !== undefined) {
+    options.user_tags = validateUserTags(input.user_tags, 'user_tags', errors, true);
+  }
+
+  if (input.alt_text !== undefined) {
+    options.alt_text = validateAltText(input.alt_text, 'alt_text', errors);
+  }
+
+  if (input.collaborators !== undefined) {
+    options.collaborators = validateCollaborators(input.collaborators, errors);
+  }
+
+  return errors.length > 0 ? { valid: false, errors } : { valid: true, errors, options };
+}
+
+/**
+ * Valida le opzioni di un Reel (campi assenti = default Instagram)
+ */
+export function validateReelsOptions(input: any): PublishOptionsValidation<ReelsOptions> {
+  const errors: string[] = [];
+  const options: ReelsOptions = {};
+
+  if (input.cover_url !== undefined) {
+    if (!isValidUrl(input.cover_url)) errors.push('cover_url non valido');
+    options.cover_url = input.cover_url;
+  }
+
+  if (input.location_id !== undefined) {
+    if (!isNonEmptyString(input.location_id)) errors.push('location_id non valido');
+    options.location_id = input.location_id;
+  }
+
+  if (input.share_to_feed !== undefined) {
+    if (typeof input.share_to_feed !== 'boolean') errors.push('share_to_feed deve essere booleano');
+    options.share_to_feed = input.share_to_feed;
+  }
+
+  if (input.thumb_offset !== undefined) {
+    if (!Number.isInteger(input.thumb_offset) || input.thumb_offset < 0) {
+      errors.push('thumb_offset deve essere un intero >= 0 (millisecondi)');
+    }
+    options.thumb_offset = input.thumb_offset;
+  }
+
+  if (input.cover_url !== undefined && input.thumb_offset !== undefined) {
+    errors.push('Specificare solo uno tra cover_url e thumb_offset');
+  }
+
+  if (input.audio_name !== undefined) {
+    if (!isNonEmptyString(input.audio_name) || input.audio_name.length > PUBLISH_LIMITS.AUDIO_NAME_MAX_LENGTH) {
+      errors.push(`audio_name non valido (max ${PUBLISH_LIMITS.AUDIO_NAME_MAX_LENGTH} caratteri)`);
+    }
+    options.audio_name = input.audio_name;
+  }
+
+  if (input.collaborators !== undefined) {
+    options.collaborators = validateCollaborators(input.collaborators, errors);
+  }
+
+  if (input.user_tags !== undefined) {
+    options.user_tags = validateUserTags(input.user_tags, 'user_tags', errors, false);
+  }
+
+  if (input.trial_params !== undefined) {
+    const strategy = input.trial_params?.graduation_strategy;
+
+    if (!TRIAL_GRADUATION_STRATEGIES.includes(strategy)) {
+      errors.push(`trial_params.graduation_strategy deve essere uno tra: ${TRIAL_GRADUATION_STRATEGIES.join(', ')}`);
+    }
+
+    options.trial_params = { graduation_strategy: strategy };
+  }
+
+  return errors.length > 0 ? { valid: false, errors } : { valid: true, errors, options };
+}
+
+/**
+ * Valida gli elementi di un carousel (immagini o video, con tag e alt text)
+ */
+export function validateCarouselItems(input: unknown): PublishOptionsValidation<CarouselItem[]> {
+  const errors: string[] = [];
+
+  if (
+    !Array.isArray(input) ||
+    input.length < PUBLISH_LIMITS.CAROUSEL_ITEMS_MIN ||
+    input.length > PUBLISH_LIMITS.CAROUSEL_ITEMS_MAX
+  ) {
+    return {
+      valid: false,
+      errors: [`items deve essere un array di ${PUBLISH_LIMITS.CAROUSEL_ITEMS_MIN}-${PUBLISH_LIMITS.CAROUSEL_ITEMS_MAX} elementi`]
+    };
+  }
+
+  const items = input.map((raw: any, i): CarouselItem => {
+    const path = `items[${i}]`;
+    const hasImage = raw?.image_url !== undefined;
+    const hasVideo = raw?.video_url !== undefined;
+
+    if (hasImage === hasVideo) {
+      errors.push(`${path} richiede solo uno tra image_url e video_url`);
+      return {};
+    }
+
+    const item: CarouselItem = hasVideo ? { video_url: raw.video_url } : { image_url: raw.image_url };
+
+    if (!isValidUrl(hasVideo ? raw.video_url : raw.image_url)) {
+      errors.push(`${path}.${hasVideo ? 'video_url' : 'image_url'} non valido`);
+    }
+
+    if (raw.user_tags !== undefined) {
+      item.user_tags = validateUserTags(raw.user_tags, `${path}.user_tags`, errors, !hasVideo);
+    }
+
+    if (raw.alt_text !== undefined) {
+      if (hasVideo) {
+        errors.push(`${path}.alt_text supportato solo per le immagini`);
+      } else {
+        item.alt_text = validateAltText(raw.alt_text, `${path}.alt_text`, errors);
+      }
+    }
+
+    return item;
+  });
+
+  return errors.length > 0 ? { valid: false, errors } : { valid: true, errors, options: items };
+}
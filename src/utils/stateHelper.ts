@@ -1,6 +1,7 @@
 // microservizio/src/utils/state.ts
 
 import crypto from 'crypto';
+import { getNonceStore } from './nonceStore.js';
 
 const SECRET_KEY = process.env.STATE_SECRET_KEY;
 
@@ -12,6 +13,21 @@ if (SECRET_KEY.length < 32) {
   throw new Error('❌ STATE_SECRET_KEY deve essere almeno 32 caratteri');
 }
 
+// Validità dello state (tempo massimo per completare il login su Instagram)
+const STATE_TTL_MS = Number(process.env.OAUTH_STATE_TTL_MS) || 10 * 60 * 1000; // 10 minuti
+
+/**
+ * Motivo di rifiuto dello state (stabile, per client e log)
+ */
+export type StateErrorCode =
+  | 'STATE_MISSING'
+  | 'STATE_MALFORMED'
+  | 'STATE_EXPIRED'
+  | 'STATE_INVALID_SIGNATURE'
+  | 'STATE_INVALID_PAYLOAD'
+  | 'STATE_REPLAYED'
+  | 'STATE_STORE_ERROR';
+
 export interface StateData {
   userId: string;
   callbackUrl: string;
@@ -29,6 +45,7 @@ export interface CreateStateResult {
 export interface VerifyStateResult {
   valid: boolean;
   data?: StateData;
+  code?: StateErrorCode;
   reason?: string;
 }
 
@@ -54,7 +71,7 @@ export function createSecureState(
   // Genera nonce univoco per questo state (anti-replay)
   const nonce = crypto.randomBytes(16).toString('base64url');
   const timestamp = Date.now();
-  const expiry = timestamp + 10 * 60 * 1000; // 10 minuti
+  const expiry = timestamp + STATE_TTL_MS;
 
   // Encode payload in base64 per sicurezza
   const payloadB64 = Buffer.from(payload).toString('base64url');
@@ -75,14 +92,14 @@ export function createSecureState(
  */
 export function verifySecureState(state: string): VerifyStateResult {
   if (!state || state.trim() === '') {
-    return { valid: false, reason: 'state è richiesto' };
+    return { valid: false, code: 'STATE_MISSING', reason: 'state è richiesto' };
   }
 
   const parts = state.split('.');
 
   // Formato: payloadB64.userState.nonce.timestamp.expiry.signature (6 parti)
   if (parts.length !== 6) {
-    return { valid: false, reason: 'formato dello state non valido' };
+    return { valid: false, code: 'STATE_MALFORMED', reason: 'formato dello state non valido' };
   }
 
   const [payloadB64, userState, nonce, timestampStr, expiryStr, signature] = parts;
@@ -92,16 +109,16 @@ export function verifySecureState(state: string): VerifyStateResult {
   const expiry = Number(expiryStr);
 
   if (!Number.isFinite(timestamp)) {
-    return { valid: false, reason: 'timestamp non valido' };
+    return { valid: false, code: 'STATE_MALFORMED', reason: 'timestamp non valido' };
   }
 
   if (!Number.isFinite(expiry)) {
-    return { valid: false, reason: 'expiry non valido' };
+    return { valid: false, code: 'STATE_MALFORMED', reason: 'expiry non valido' };
   }
 
   // ✅ Verifica scadenza
   if (Date.now() > expiry) {
-    return { valid: false, reason: 'state scaduto' };
+    return { valid: false, code: 'STATE_EXPIRED', reason: 'state scaduto' };
   }
 
   // ✅ Verifica firma HMAC (protezione CSRF!)
@@ -113,14 +130,14 @@ export function verifySecureState(state: string): VerifyStateResult {
     const expectedBuf = Buffer.from(expectedSignature, 'base64url');
 
     if (sigBuf.length !== expectedBuf.length) {
-      return { valid: false, reason: 'firma non valida' };
+      return { valid: false, code: 'STATE_INVALID_SIGNATURE', reason: 'firma non valida' };
     }
 
     if (!crypto.timingSafeEqual(sigBuf, expectedBuf)) {
-      return { valid: false, reason: 'firma non valida' };
+      return { valid: false, code: 'STATE_INVALID_SIGNATURE', reason: 'firma non valida' };
     }
   } catch (e) {
-    return { valid: false, reason: 'errore verifica firma' };
+    return { valid: false, code: 'STATE_INVALID_SIGNATURE', reason: 'errore verifica firma' };
   }
 
   // ✅ Decodifica payload
@@ -129,7 +146,7 @@ export function verifySecureState(state: string): VerifyStateResult {
     const payloadJson = Buffer.from(payloadB64, 'base64url').toString('utf8');
     payloadData = JSON.parse(payloadJson);
   } catch (e) {
-    return { valid: false, reason: 'payload non valido' };
+    return { valid: false, code: 'STATE_INVALID_PAYLOAD', reason: 'payload non valido' };
   }
 
   return {
@@ -143,4 +160,30 @@ export function verifySecureState(state: string): VerifyStateResult {
       expiry
     }
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Verifica lo state e ne consuma il nonce (anti-replay):
+ * lo stesso state è accettato una sola volta
+ */
+export async function consumeSecureState(state: string): Promise<VerifyStateResult> {
+  const verification = verifySecureState(state);
+  if (!verification.valid) return verification;
+
+  const { nonce, expiry } = verification.data!;
+
+  try {
+    // Il nonce serve solo finché lo state è valido
+    const isNew = await getNonceStore().consume(nonce, Math.max(expiry - Date.now(), 0) + 1000);
+
+    if (!isNew) {
+      return { valid: false, code: 'STATE_REPLAYED', reason: 'state già utilizzato' };
+    }
+  } catch (error) {
+    // Senza store non si può escludere un replay: si rifiuta
+    console.error('❌ Errore nonce store:', error);
+    return { valid: false, code: 'STATE_STORE_ERROR', reason: 'impossibile verificare il nonce' };
+  }
+
+  return verification;
+}
@@ -0,0 +1,20 @@
+// ============================================
+// VALIDATORS
+// Controlli di base condivisi dalle validazioni dei body
+// ============================================
+
+export const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+/**
+ * URL assoluto http/https (gli unici che Instagram riesce a scaricare)
+ */
+export function isValidUrl(value: unknown): boolean {
+  if (!isNonEmptyString(value)) return false;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || url.protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
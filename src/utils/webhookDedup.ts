@@ -0,0 +1,143 @@
+// ============================================
+// WEBHOOK DEDUP
+// Meta ritenta i webhook e a volte li duplica:
+// ogni evento viene processato una sola volta
+// ============================================
+
+import crypto from 'crypto';
+import { JsonFileStore } from './jsonFileStore.js';
+
+const DEDUP_TTL_MS = Number(process.env.WEBHOOK_DEDUP_TTL_MS) || 24 * 60 * 60 * 1000; // 24 ore
+const DEDUP_STORE = process.env.WEBHOOK_DEDUP_STORE || 'memory'; // memory | file
+
+export interface DedupStore {
+  /**
+   * Registra la chiave se non già presente
+   * @returns true se la chiave è nuova, false se è un duplicato
+   */
+  markIfNew(key: string, ttlMs: number): Promise<boolean>;
+}
+
+/**
+ * Store in memoria (perso al riavvio)
+ */
+export class MemoryDedupStore implements DedupStore {
+  private readonly entries = new Map<string, number>();
+
+  async markIfNew(key: string, ttlMs: number): Promise<boolean> {
+    const now = Date.now();
+    this.prune(now);
+
+    const expiresAt = this.entries.get(key);
+    if (expiresAt !== undefined && expiresAt > now) {
+      return false;
+    }
+
+    this.entries.set(key, now + ttlMs);
+    return true;
+  }
+
+  private prune(now: number): void {
+    for (const [key, expiresAt] of this.entries) {
+      if (expiresAt <= now) this.entries.delete(key);
+    }
+  }
+}
+
+/**
+ * Store su file JSON (sopravvive ai riavvii)
+ */
+export class FileDedupStore implements DedupStore {
+  private readonly store = new JsonFileStore<Record<string, number>>('webhook-dedup.json', () => ({}));
+  private readonly entries: Record<string, number> = this.store.read();
+
+  async markIfNew(key: string, ttlMs: number): Promise<boolean> {
+    const now = Date.now();
+
+    for (const [storedKey, expiresAt] of Object.entries(this.entries)) {
+      if (expiresAt <= now) delete this.entries[storedKey];
+    }
+
+    const expiresAt = this.entries[key];
+    if (expiresAt !== undefined && expiresAt > now) {
+      return false;
+    }
+
+    this.entries[key] = now + ttlMs;
+
+    try {
+      this.store.write(this.entries);
+    } catch (error) {
+      console.error('[DEDUP] ❌ Impossibile salvare lo store su disco:', error);
+    }
+
+    return true;
+  }
+}
+
+let dedupStore: DedupStore = DEDUP_STORE === 'file' ? new FileDedupStore() : new MemoryDedupStore();
+
+/**
+ * Sostituisce lo store (es: backend custom)
+ */
+export function setDedupStore(store: DedupStore): void {
+  dedupStore = store;
+}
+
+/**
+ * Chiave per un evento "messaging" (DM, reaction, read, postback)
+ */
+export function messagingEventKey(entryId: string, entryTime: number, msg: any): string {
+  if (msg?.message?.mid) {
+    return midKey(msg.message);
+  }
+
+  return entryKey(entryId, entryTime, msg);
+}
+
+/**
+ * Chiave per un evento "changes" (commenti, mentions, ecc.)
+ */
+export function changeEventKey(entryId: string, entryTime: number, change: any): string {
+  const { field, value } = change || {};
+
+  if (field === 'messages' && value?.message?.mid) {
+    return midKey(value.message);
+  }
+
+  if ((field === 'comments' || field === 'live_comments') && value?.id) {
+    return `comment:${value.id}`;
+  }
+
+  return entryKey(entryId, entryTime, change);
+}
+
+/**
+ * La cancellazione arriva con lo stesso mid del messaggio originale:
+ * chiave distinta, altrimenti verrebbe scartata come duplicato
+ */
+function midKey(message: any): string {
+  return message.is_deleted ? `mid:${message.mid}:deleted` : `mid:${message.mid}`;
+}
+
+/**
+ * Fallback: entry id + time + hash del contenuto dell'evento
+ */
+function entryKey(entryId: string, entryTime: number, event: unknown): string {
+  const hash = crypto.createHash('sha256').update(JSON.stringify(event ?? null)).digest('hex');
+  return `entry:${entryId}:${entryTime}:${hash.substring(0, 16)}`;
+}
+
+/**
+ * true se l'evento è già stato processato (entro il TTL)
+ */
+export async function isDuplicateEvent(key: string): Promise<boolean> {
+  try {
+    const isNew = await dedupStore.markIfNew(key, DEDUP_TTL_MS);
+    return !isNew;
+  } catch (error) {
+    // Meglio un duplicato che un evento perso
+    console.error('[DEDUP] ❌ Errore store, evento processato comunque:', error);
+    return false;
+  }
+}
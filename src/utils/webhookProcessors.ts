@@ -1,9 +1,12 @@
 // src/utils/webhookProcessors.ts
 
-import axios from 'axios';
-
-const IVOT_BACKEND_URL = process.env.IVOT_FRONTEND_URL
-const INTERNAL_API_KEY = process.env.INTERNAL_API_KEY;
+import { IvotNotifier } from './ivotNotifier.js';
+import {
+  normalizeInstagramMessage,
+  normalizeReaction,
+  normalizeRead,
+  normalizePostback
+} from './messageNormalizer.js';
 
 /**
  * Processa eventi di messaging (Direct Messages)
@@ -28,58 +31,24 @@ export async function processMessagingEvent(
   // Message received
   if (msg.message) {
     console.log('[PROCESSOR:MSG] 📨 Message received:', {
-    
       mid: msg.message.mid,
       text: msg.message.text,
+      attachments: msg.message.attachments?.map((attachment: any) => attachment.type),
       isDeleted: msg.message.is_deleted,
       isEcho: msg.message.is_echo,
       isSelf: msg.message.is_self
     });
 
-    // ✅ Invia al backend IVOT
-    try {
-      console.log('[PROCESSOR:MSG] 📤 Forwarding to IVOT backend...');
-      
-      // ✅ Payload corretto secondo formato Meta webhook
-      const payload = {
-        instagram_account_id: instagramAccountId,
-        sender_id: msg.sender?.id || 'unknown',
-        sender_username: msg.sender?.username || null, // Può essere null nei test
-        message: {
-          id: msg.message.mid,
-          text: msg.message.text || '',
-          timestamp: parseInt(msg.timestamp) || Date.now()
-        },
-        is_echo: msg.message.is_echo || msg.message.is_self || false,
-        // Metadata aggiuntivi per debug
-        raw_timestamp: msg.timestamp,
-        webhook_time: webhookTime
-      };
+    // ✅ Normalizza il messaggio (testo, attachment, story reply, quick reply, ...)
+    const payload = normalizeInstagramMessage(instagramAccountId, msg, webhookTime);
 
-      console.log('[PROCESSOR:MSG]    Payload:', JSON.stringify(payload, null, 2));
-
-      const response = await axios.post(
-        `${process.env.IVOT_FRONTEND_URL}/api/webhooks/instagram/messages`,
-        payload,
-        {
-          headers: {
-            'x-api-key': INTERNAL_API_KEY,
-            'Content-Type': 'application/json'
-          },
-          timeout: 5000
-        }
-      );
-
-      console.log('[PROCESSOR:MSG] ✅ Forwarded to IVOT backend:', response.status);
+    console.log('[PROCESSOR:MSG] 📤 Forwarding to IVOT backend:', {
+      type: payload.message.type,
+      attachments: payload.message.attachments?.length || 0
+    });
 
-    } catch (error) {
-      console.error('[PROCESSOR:MSG] ❌ Error forwarding to IVOT:', error);
-      
-      if (axios.isAxiosError(error)) {
-        console.error('[PROCESSOR:MSG]    Status:', error.response?.status);
-        console.error('[PROCESSOR:MSG]    Data:', error.response?.data);
-      }
-    }
+    // ✅ Consegna tramite outbox (retry + dead-letter)
+    await IvotNotifier.notifyMessage(payload);
   }
 
   // Reaction
@@ -89,15 +58,15 @@ export async function processMessagingEvent(
       action: msg.reaction.action,
       emoji: msg.reaction.emoji
     });
-    
-    // TODO: Invia reaction a IVOT
+
+    await IvotNotifier.notifyReaction(normalizeReaction(instagramAccountId, msg, webhookTime));
   }
 
   // Message read
   if (msg.read) {
     console.log('[PROCESSOR:MSG] 👁️ Message read:', msg.read.mid);
-    
-    // TODO: Invia read status a IVOT
+
+    await IvotNotifier.notifyRead(normalizeRead(instagramAccountId, msg, webhookTime));
   }
 
   // Postback (icebreaker, CTA button)
@@ -106,8 +75,8 @@ export async function processMessagingEvent(
       title: msg.postback.title,
       payload: msg.postback.payload
     });
-    
-    // TODO: Invia postback a IVOT
+
+    await IvotNotifier.notifyPostback(normalizePostback(instagramAccountId, msg, webhookTime));
   }
 }
 
@@ -164,6 +133,18 @@ export async function processChangeEvent(
     return;
   }
 
+  // ✅ Reaction, letture e postback in formato change → stesso flusso dei DM
+  if (
+    (field === 'message_reactions' && value?.reaction) ||
+    (field === 'messaging_seen' && value?.read) ||
+    (field === 'messaging_postbacks' && value?.postback)
+  ) {
+    console.log(`[PROCESSOR:CHANGE] 📨 Detected ${field} in change event, forwarding...`);
+
+    await processMessagingEvent(value.recipient, value, webhookTime);
+    return;
+  }
+
   switch (field) {
     case 'comments':
     case 'live_comments':
@@ -174,7 +155,7 @@ export async function processChangeEvent(
         mediaId: value.media?.id
       });
 
-      await notifyIvotEvent('comment', value.recipient, {
+      await IvotNotifier.notifyGenericEvent('comment', value.recipient, {
         field,
         value,
         webhook_time: webhookTime
@@ -187,7 +168,7 @@ export async function processChangeEvent(
         commentId: value.comment_id
       });
 
-      await notifyIvotEvent('mention', value.recipient, {
+      await IvotNotifier.notifyGenericEvent('mention', value.recipient, {
         field,
         value,
         webhook_time: webhookTime
@@ -197,7 +178,7 @@ export async function processChangeEvent(
     case 'story_insights':
       console.log('[PROCESSOR:CHANGE] 📊 Story insights:', value);
       
-      await notifyIvotEvent('story_insights', value.recipient, {
+      await IvotNotifier.notifyGenericEvent('story_insights', value.recipient, {
         field,
         value,
         webhook_time: webhookTime
@@ -207,50 +188,10 @@ export async function processChangeEvent(
     default:
       console.log('[PROCESSOR:CHANGE] ❓ Unknown field:', field);
       
-      await notifyIvotEvent(`unknown_${field}`, value.recipient, {
+      await IvotNotifier.notifyGenericEvent(`unknown_${field}`, value.recipient, {
         field,
         value,
         webhook_time: webhookTime
       });
   }
 }
-
-/**
- * Notifica IVOT di un evento generico
- */
-async function notifyIvotEvent(
-  eventType: string,
-  instagramAccountId: string,
-  data: any
-): Promise<void> {
-  try {
-    console.log('[PROCESSOR] 📤 Sending', eventType, 'to IVOT');
-
-    await axios.post(
-      `${IVOT_BACKEND_URL}/api/webhooks/instagram/events`,
-      {
-        event_type: eventType,
-        instagram_account_id: instagramAccountId,
-        data,
-        received_at: new Date().toISOString()
-      },
-      {
-        headers: {
-          'x-api-key': INTERNAL_API_KEY, // ← lowercase!
-          'Content-Type': 'application/json'
-        },
-        timeout: 10000
-      }
-    );
-
-    console.log('[PROCESSOR] ✅', eventType, 'sent to IVOT');
-
-  } catch (error) {
-    console.error('[PROCESSOR] ❌ Failed to notify IVOT', eventType, ':', error);
-    
-    if (axios.isAxiosError(error)) {
-      console.error('[PROCESSOR]    Status:', error.response?.status);
-      console.error('[PROCESSOR]    Data:', error.response?.data);
-    }
-  }
-}
\ No newline at end of file
@@ -0,0 +1,96 @@
+import { mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const TTL_MS = 50;
+
+process.env.DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'ivot-handoff-test-'));
+process.env.AUTH_HANDOFF_TTL_MS = String(TTL_MS);
+process.env.STATE_SECRET_KEY = 'test-secret-key-with-at-least-32-characters';
+
+const { authHandoffService } = await import('../src/services/authHandoffService.js');
+const { exchangeAuthCode } = await import('../src/controllers/instagramController.js');
+
+mock.method(console, 'log', () => {});
+mock.method(console, 'warn', () => {});
+
+const DATA = {
+  access_token: 'IGAA-secret-token',
+  platform_user_id: '1789',
+  user_id: '1789',
+  username: 'ivot',
+  expires_in: 5184000,
+  expires_at: '2030-01-01T00:00:00.000Z'
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function mockResponse() {
+  const res: any = { statusCode: 200, body: undefined };
+  res.status = (code: number) => { res.statusCode = code; return res; };
+  res.json = (body: unknown) => { res.body = body; return res; };
+  return res;
+}
+
+function exchange(code: unknown) {
+  const res = mockResponse();
+  exchangeAuthCode({ body: { code } } as any, res);
+  return res;
+}
+
+test('handoff: il codice è monouso', () => {
+  const { code } = authHandoffService.create(DATA);
+
+  assert.deepEqual(authHandoffService.consume(code), DATA);
+  assert.equal(authHandoffService.consume(code), undefined);
+});
+
+test('handoff: codici distinti e indipendenti per ogni login', () => {
+  const first = authHandoffService.create(DATA);
+  const second = authHandoffService.create({ ...DATA, user_id: '2001' });
+
+  assert.notEqual(first.code, second.code);
+  assert.equal(authHandoffService.consume(second.code)?.user_id, '2001');
+  assert.equal(authHandoffService.consume(first.code)?.user_id, '1789');
+  assert.equal(authHandoffService.consume('codice-inventato'), undefined);
+});
+
+test('handoff: il codice scade dopo AUTH_HANDOFF_TTL_MS', async () => {
+  const { code, expiresAt } = authHandoffService.create(DATA);
+  const ttl = Date.parse(expiresAt) - Date.now();
+  assert.ok(ttl > 0 && ttl <= TTL_MS, `ttl ${ttl}`);
+
+  await sleep(TTL_MS + 10);
+
+  assert.equal(authHandoffService.consume(code), undefined);
+});
+
+test('handoff: AUTH_HANDOFF_TTL_MS limitato a 2 minuti', async () => {
+  process.env.AUTH_HANDOFF_TTL_MS = String(10 * 60 * 1000);
+  const { authHandoffService: capped } = await import('../src/services/authHandoffService.js?max-ttl');
+  process.env.AUTH_HANDOFF_TTL_MS = String(TTL_MS);
+
+  const { expiresAt } = capped.create(DATA);
+  const ttl = Date.parse(expiresAt) - Date.now();
+  assert.ok(ttl > 110 * 1000 && ttl <= 120 * 1000, `ttl ${ttl}`);
+});
+
+test('exchangeAuthCode: dati OAuth al primo scambio, 400 al riuso e dopo la scadenza', async () => {
+  const { code } = authHandoffService.create(DATA);
+
+  const first = exchange(code);
+  assert.equal(first.statusCode, 200);
+  assert.deepEqual(first.body, { success: true, ...DATA });
+
+  const reused = exchange(code);
+  assert.equal(reused.statusCode, 400);
+  assert.equal(reused.body.error, 'INVALID_HANDOFF_CODE');
+
+  const expired = authHandoffService.create(DATA);
+  await sleep(TTL_MS + 10);
+  assert.equal(exchange(expired.code).body.error, 'INVALID_HANDOFF_CODE');
+
+  assert.equal(exchange(undefined).statusCode, 400);
+});
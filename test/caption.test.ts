@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+const { CAPTION_LIMITS, normalizeCaption, validateCaption } = await import('../src/utils/caption.js');
+
+test('caption: normalizzazione di a capo, spazi finali e Unicode', () => {
+  assert.equal(normalizeCaption('  ciao  \r\nmondo\t\rfine  '), 'ciao\nmondo\nfine');
+  // "é" scomposta (e + accento) → forma composta
+  assert.equal(normalizeCaption('caffe\u0301'), 'caff\u00e9');
+});
+
+test('caption: lunghezza in code point, non in unità UTF-16', () => {
+  const emoji = '😀'.repeat(CAPTION_LIMITS.MAX_LENGTH);
+
+  const atLimit = validateCaption(emoji);
+  assert.equal(atLimit.valid, true);
+  assert.equal(atLimit.length, CAPTION_LIMITS.MAX_LENGTH);
+
+  const overLimit = validateCaption(emoji + '😀');
+  assert.equal(overLimit.valid, false);
+  assert.match(overLimit.errors[0], /massimo 2200 caratteri/);
+});
+
+test('caption: limite hashtag', () => {
+  const tags = (count: number) => Array.from({ length: count }, (_, i) => `#tag${i}`).join(' ');
+
+  assert.equal(validateCaption(tags(CAPTION_LIMITS.HASHTAGS_MAX)).valid, true);
+
+  const result = validateCaption(tags(CAPTION_LIMITS.HASHTAGS_MAX + 1));
+  assert.equal(result.valid, false);
+  assert.match(result.errors[0], /massimo 30 hashtag/);
+});
+
+test('caption: limite menzioni', () => {
+  const mentions = (count: number) => Array.from({ length: count }, (_, i) => `@user_${i}`).join(' ');
+
+  assert.equal(validateCaption(mentions(CAPTION_LIMITS.MENTIONS_MAX)).valid, true);
+  assert.equal(validateCaption(mentions(CAPTION_LIMITS.MENTIONS_MAX + 1)).valid, false);
+});
+
+test('caption: estrazione di hashtag e menzioni senza falsi positivi', () => {
+  const result = validateCaption('Nuovo post #Estate #estate2024 con @ivot.app e @ivot.app! mail@example.com e&#39;');
+
+  assert.deepEqual(result.hashtags, ['Estate', 'estate2024']);
+  assert.deepEqual(result.mentions, ['ivot.app']);
+});
+
+test('caption: assente = vuota, tipo non valido rifiutato', () => {
+  assert.equal(validateCaption(undefined).valid, true);
+  assert.equal(validateCaption(undefined).caption, '');
+
+  const invalid = validateCaption(42);
+  assert.equal(invalid.valid, false);
+  assert.deepEqual(invalid.errors, ['caption deve essere una stringa']);
+});
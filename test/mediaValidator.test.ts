@@ -0,0 +1,220 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ivot-media-test-'));
+
+const { MediaValidationError, preflightMedia, validateMedia } = await import('../src/utils/mediaValidator.js');
+
+// ==========================================
+// Costruzione di file MP4 minimi
+// ==========================================
+
+function box(type: string, ...payload: Buffer[]): Buffer {
+  const content = Buffer.concat(payload);
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(8 + content.length, 0);
+  header.write(type, 4, 'latin1');
+  return Buffer.concat([header, content]);
+}
+
+function mvhd(timescale: number, duration: number): Buffer {
+  const content = Buffer.alloc(100);
+  content.writeUInt32BE(timescale, 12);
+  content.writeUInt32BE(duration, 16);
+  return box('mvhd', content);
+}
+
+function tkhd(width: number, height: number): Buffer {
+  const content = Buffer.alloc(84);
+  content.writeUInt32BE(width << 16, 76);
+  content.writeUInt32BE(height << 16, 80);
+  return box('tkhd', content);
+}
+
+function mp4({ seconds, width, height }: { seconds: number; width: number; height: number }): Buffer {
+  return Buffer.concat([
+    box('ftyp', Buffer.from('isom\0\0\x02\0isomiso2mp41', 'latin1')),
+    box('mdat', Buffer.alloc(64)),
+    box('moov', mvhd(1000, seconds * 1000), box('trak', tkhd(width, height)))
+  ]);
+}
+
+function writeFile(name: string, content: Buffer): string {
+  const filePath = path.join(tmpDir, name);
+  fs.writeFileSync(filePath, content);
+  return filePath;
+}
+
+test('pre-flight file locale: durata e risoluzione lette dal moov', async () => {
+  const filePath = writeFile('reel.mp4', mp4({ seconds: 12, width: 1080, height: 1920 }));
+
+  const result = await validateMedia([{ field: 'video', file_path: filePath, kind: 'video' }], 'reels');
+
+  assert.equal(result.valid, true);
+  assert.deepEqual(result.warnings, []);
+  assert.equal(result.media[0].content_type, 'video/mp4');
+  assert.equal(result.media[0].duration_seconds, 12);
+  assert.equal(result.media[0].width, 1080);
+  assert.equal(result.media[0].url, `file://${filePath}`);
+});
+
+test('pre-flight file locale: video non conforme → MediaValidationError', async () => {
+  const filePath = writeFile('short.mp4', mp4({ seconds: 1, width: 3840, height: 2160 }));
+
+  await assert.rejects(
+    () => preflightMedia([{ field: 'video', file_path: filePath, kind: 'video' }], 'reels'),
+    (error: unknown) => {
+      assert.ok(error instanceof MediaValidationError);
+      assert.deepEqual(error.result.violations.map(v => v.code), ['VIDEO_TOO_SHORT', 'RESOLUTION_TOO_HIGH']);
+      return true;
+    }
+  );
+});
+
+test('pre-flight file locale: formato non supportato e file inesistente', async () => {
+  const notVideo = writeFile('notes.txt', Buffer.from('non è un video'));
+
+  const result = await validateMedia([
+    { field: 'video', file_path: notVideo, kind: 'video' },
+    { field: 'file_path', file_path: path.join(tmpDir, 'missing.mp4'), kind: 'video' }
+  ], 'reels');
+
+  assert.deepEqual(result.violations.map(v => v.code), ['UNSUPPORTED_CONTENT_TYPE', 'UNREACHABLE']);
+});
+
+// ==========================================
+// Parser JPEG (SOF) e MP4 (moov/mvhd/tkhd)
+// ==========================================
+
+function segment(marker: number, content: Buffer): Buffer {
+  const header = Buffer.alloc(4);
+  header[0] = 0xff;
+  header[1] = marker;
+  header.writeUInt16BE(content.length + 2, 2);
+  return Buffer.concat([header, content]);
+}
+
+function jpeg({ width, height, sof = 0xc0 }: { width: number; height: number; sof?: number }): Buffer {
+  const frame = Buffer.alloc(15);
+  frame[0] = 8; // precisione
+  frame.writeUInt16BE(height, 1);
+  frame.writeUInt16BE(width, 3);
+  frame[5] = 3; // componenti
+
+  return Buffer.concat([
+    Buffer.from([0xff, 0xd8]),
+    segment(0xe0, Buffer.from('JFIF\0\x01\x01\0\0\x01\0\x01\0\0', 'latin1')),
+    segment(0xdb, Buffer.alloc(65)),
+    segment(sof, frame),
+    segment(0xda, Buffer.alloc(10)),
+    Buffer.alloc(32),
+    Buffer.from([0xff, 0xd9])
+  ]);
+}
+
+function mvhdV1(timescale: number, duration: number): Buffer {
+  const content = Buffer.alloc(112);
+  content[0] = 1;
+  content.writeUInt32BE(timescale, 20);
+  content.writeBigUInt64BE(BigInt(duration), 24);
+  return box('mvhd', content);
+}
+
+const image = (filePath: string) => ({ field: 'image_url', file_path: filePath, kind: 'image' as const });
+const video = (filePath: string) => ({ field: 'video', file_path: filePath, kind: 'video' as const });
+
+test('JPEG: dimensioni dal SOF dopo i segmenti APP/DQT, baseline e progressive', async () => {
+  const baseline = writeFile('baseline.jpg', jpeg({ width: 1080, height: 1350 }));
+  const progressive = writeFile('progressive.jpg', jpeg({ width: 1080, height: 1080, sof: 0xc2 }));
+
+  const result = await validateMedia([image(baseline), image(progressive)], 'feed');
+
+  assert.equal(result.valid, true);
+  assert.deepEqual(result.warnings, []);
+  assert.deepEqual(result.media.map(m => [m.content_type, m.width, m.height, m.aspect_ratio]), [
+    ['image/jpeg', 1080, 1350, 0.8],
+    ['image/jpeg', 1080, 1080, 1]
+  ]);
+});
+
+test('JPEG: aspect ratio fuori dai limiti solo fuori dalle storie', async () => {
+  const vertical = writeFile('vertical.jpg', jpeg({ width: 1080, height: 1920 }));
+
+  const feed = await validateMedia([image(vertical)], 'feed');
+  assert.deepEqual(feed.violations.map(v => [v.code, v.actual]), [['ASPECT_RATIO_OUT_OF_RANGE', 0.563]]);
+
+  const story = await validateMedia([image(vertical)], 'story');
+  assert.equal(story.valid, true);
+});
+
+test('JPEG troncato: nessun errore, solo un warning sulle dimensioni', async () => {
+  const full = jpeg({ width: 1080, height: 1350 });
+  // Tagliato dentro il DQT, prima del SOF
+  const truncated = writeFile('truncated.jpg', full.subarray(0, 40));
+  // Header SOI seguito da byte che non sono un marker
+  const corrupted = writeFile('corrupted.jpg', Buffer.concat([full.subarray(0, 3), Buffer.alloc(200)]));
+
+  const result = await validateMedia([image(truncated), image(corrupted)], 'feed');
+
+  assert.equal(result.valid, true);
+  assert.deepEqual(result.warnings, [
+    'image_url: dimensioni immagine non leggibili',
+    'image_url: dimensioni immagine non leggibili'
+  ]);
+  assert.equal(result.media[0].width, null);
+});
+
+test('MP4: moov prima del mdat, mvhd versione 1 e traccia audio prima del video', async () => {
+  const filePath = writeFile('faststart.mp4', Buffer.concat([
+    box('ftyp', Buffer.from('isom\0\0\x02\0isomiso2mp41', 'latin1')),
+    box('moov',
+      mvhdV1(90000, 90000 * 30),
+      box('trak', tkhd(0, 0)), // audio: dimensioni a zero
+      box('trak', tkhd(720, 1280))
+    ),
+    box('mdat', Buffer.alloc(64))
+  ]));
+
+  const result = await validateMedia([video(filePath)], 'reels');
+
+  assert.equal(result.valid, true);
+  assert.deepEqual(result.warnings, []);
+  assert.deepEqual(
+    [result.media[0].duration_seconds, result.media[0].width, result.media[0].height, result.media[0].aspect_ratio],
+    [30, 720, 1280, 0.563]
+  );
+});
+
+test('MP4 troncato: metadati non verificati invece di un errore', async () => {
+  const full = mp4({ seconds: 12, width: 1080, height: 1920 });
+  const moovStart = full.indexOf('moov', 0, 'latin1') - 4;
+
+  // Tagliato prima del moov: il moov non si trova
+  const noMoov = writeFile('no-moov.mp4', full.subarray(0, moovStart));
+  // Tagliato a metà del mvhd: lettura oltre la fine del buffer
+  const halfMvhd = writeFile('half-mvhd.mp4', full.subarray(0, moovStart + 8 + 8 + 14));
+
+  const result = await validateMedia([video(noMoov), video(halfMvhd)], 'reels');
+
+  assert.equal(result.valid, true);
+  assert.deepEqual(result.warnings, [
+    'video: metadati video non leggibili (durata e risoluzione non verificate)',
+    'video: metadati video non leggibili (durata e risoluzione non verificate)'
+  ]);
+  assert.deepEqual(result.media.map(m => m.duration_seconds), [null, null]);
+});
+
+test('MP4 troncato dopo il mvhd: durata letta, risoluzione non disponibile', async () => {
+  const full = mp4({ seconds: 2, width: 1080, height: 1920 });
+  // Il tkhd perde gli ultimi byte (larghezza e altezza)
+  const filePath = writeFile('half-tkhd.mp4', full.subarray(0, full.length - 6));
+
+  const result = await validateMedia([video(filePath)], 'reels');
+
+  assert.deepEqual(result.violations.map(v => v.code), ['VIDEO_TOO_SHORT']);
+  assert.equal(result.media[0].duration_seconds, 2);
+  assert.equal(result.media[0].width, null);
+});
@@ -0,0 +1,133 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+const { normalizeGraphMessage, normalizeInstagramMessage } = await import('../src/utils/messageNormalizer.js');
+
+const ACCOUNT_ID = '1789';
+const USER_ID = '5521';
+
+test('conversation_id: IGSID dell\'interlocutore per webhook e storico', () => {
+  const fromWebhook = normalizeInstagramMessage(ACCOUNT_ID, {
+    sender: { id: USER_ID },
+    recipient: { id: ACCOUNT_ID },
+    timestamp: 1700000000000,
+    message: { mid: 'm_1', text: 'ciao' }
+  }, 1700000000);
+
+  const echoFromWebhook = normalizeInstagramMessage(ACCOUNT_ID, {
+    sender: { id: ACCOUNT_ID },
+    recipient: { id: USER_ID },
+    timestamp: 1700000001000,
+    message: { mid: 'm_2', text: 'ciao a te', is_echo: true }
+  }, 1700000001);
+
+  const fromHistory = normalizeGraphMessage(ACCOUNT_ID, {
+    id: 'm_1',
+    created_time: '2023-11-14T22:13:20+0000',
+    from: { id: USER_ID, username: 'utente' },
+    to: { data: [{ id: ACCOUNT_ID }] },
+    message: 'ciao'
+  });
+
+  const echoFromHistory = normalizeGraphMessage(ACCOUNT_ID, {
+    id: 'm_2',
+    created_time: '2023-11-14T22:13:21+0000',
+    from: { id: ACCOUNT_ID },
+    to: { data: [{ id: USER_ID }] },
+    message: 'ciao a te'
+  });
+
+  for (const payload of [fromWebhook, echoFromWebhook, fromHistory, echoFromHistory]) {
+    assert.equal(payload.conversation_id, USER_ID);
+  }
+  assert.equal(echoFromHistory.is_echo, true);
+});
+
+const webhookMessage = (message: Record<string, unknown>) => normalizeInstagramMessage(ACCOUNT_ID, {
+  sender: { id: USER_ID },
+  recipient: { id: ACCOUNT_ID },
+  timestamp: 1700000000000,
+  message: { mid: 'm_10', ...message }
+}, 1700000000);
+
+test('webhook: post condiviso → share con url al primo livello', () => {
+  const payload = webhookMessage({
+    attachments: [{ type: 'share', payload: { url: 'https://lookaside.fbsbx.com/post.jpg' } }]
+  });
+
+  assert.equal(payload.message.type, 'share');
+  assert.deepEqual(payload.message.attachments, [{
+    type: 'share',
+    url: 'https://lookaside.fbsbx.com/post.jpg',
+    payload: { url: 'https://lookaside.fbsbx.com/post.jpg' }
+  }]);
+  assert.equal(payload.webhook_event_type, 'message');
+
+  const reel = webhookMessage({
+    attachments: [{ type: 'ig_reel', payload: { url: 'https://lookaside.fbsbx.com/reel.mp4', title: 'Reel' } }]
+  });
+  assert.equal(reel.message.type, 'reel');
+});
+
+test('webhook: menzione in una storia', () => {
+  const payload = webhookMessage({
+    attachments: [{ type: 'story_mention', payload: { url: 'https://lookaside.fbsbx.com/story.jpg' } }]
+  });
+
+  assert.equal(payload.message.type, 'story_mention');
+  assert.equal(payload.message.attachments?.[0].url, 'https://lookaside.fbsbx.com/story.jpg');
+  assert.equal(payload.conversation_id, USER_ID);
+});
+
+test('webhook: messaggio non supportato', () => {
+  const payload = webhookMessage({ is_unsupported: true });
+
+  assert.equal(payload.message.type, 'unsupported');
+  assert.equal(payload.is_unsupported, true);
+  assert.equal(payload.is_deleted, false);
+  assert.equal(payload.webhook_event_type, 'message');
+
+  // Attachment di tipo sconosciuto: non supportato anche senza flag
+  const unknownAttachment = webhookMessage({ attachments: [{ type: 'ephemeral', payload: {} }] });
+  assert.equal(unknownAttachment.message.type, 'unsupported');
+  assert.equal(unknownAttachment.is_unsupported, false);
+});
+
+test('webhook: messaggio eliminato', () => {
+  // is_deleted vince anche se l'evento porta ancora testo o attachment
+  const payload = webhookMessage({ is_deleted: true, text: 'ciao' });
+
+  assert.equal(payload.message.id, 'm_10');
+  assert.equal(payload.message.type, 'deleted');
+  assert.equal(payload.is_deleted, true);
+  assert.equal(payload.webhook_event_type, 'message_deleted');
+  assert.equal(payload.conversation_id, USER_ID);
+});
+
+test('storico: share, menzione in storia e messaggio non supportato', () => {
+  const base = {
+    created_time: '2023-11-14T22:13:20+0000',
+    from: { id: USER_ID },
+    to: { data: [{ id: ACCOUNT_ID }] }
+  };
+
+  const share = normalizeGraphMessage(ACCOUNT_ID, {
+    ...base,
+    id: 'm_20',
+    shares: { data: [{ link: 'https://www.instagram.com/p/abc/' }] }
+  });
+  assert.equal(share.message.type, 'share');
+  assert.equal(share.message.attachments?.[0].url, 'https://www.instagram.com/p/abc/');
+
+  const mention = normalizeGraphMessage(ACCOUNT_ID, {
+    ...base,
+    id: 'm_21',
+    story: { mention: { id: 'story_1', link: 'https://cdn.example.com/story.jpg' } }
+  });
+  assert.equal(mention.message.type, 'story_mention');
+  assert.equal(mention.message.attachments?.[0].url, 'https://cdn.example.com/story.jpg');
+
+  const unsupported = normalizeGraphMessage(ACCOUNT_ID, { ...base, id: 'm_22', is_unsupported: true });
+  assert.equal(unsupported.message.type, 'unsupported');
+  assert.equal(unsupported.is_unsupported, true);
+});
@@ -0,0 +1,35 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+const { MESSAGE_LIMITS, validateOutboundMessage } = await import('../src/utils/outboundMessage.js');
+const { isValidUrl } = await import('../src/utils/validators.js');
+
+test('outboundMessage: il limite del testo è in byte UTF-8', () => {
+  assert.equal(validateOutboundMessage('a'.repeat(MESSAGE_LIMITS.TEXT_MAX_BYTES)).valid, true);
+
+  // 250 emoji = 500 unità UTF-16 ma 1000 byte: ancora nel limite
+  assert.equal(validateOutboundMessage('😀'.repeat(250)).valid, true);
+
+  // 600 "è" = 600 unità UTF-16 ma 1200 byte: fuori limite
+  const result = validateOutboundMessage('è'.repeat(600));
+  assert.equal(result.valid, false);
+  assert.match(result.errors[0], /supera 1000 byte UTF-8 \(1200\)/);
+
+  const buttons = validateOutboundMessage({
+    type: 'button_template',
+    text: '😀'.repeat(251),
+    buttons: [{ type: 'postback', title: 'Ok', payload: 'OK' }]
+  });
+  assert.equal(buttons.valid, false);
+  assert.match(buttons.errors[0], /\(1004\)/);
+});
+
+test('validators: isValidUrl accetta solo URL http/https', () => {
+  assert.equal(isValidUrl('https://cdn.example.com/a.jpg'), true);
+  assert.equal(isValidUrl('http://cdn.example.com/a.jpg'), true);
+  assert.equal(isValidUrl('ftp://cdn.example.com/a.jpg'), false);
+  assert.equal(isValidUrl('file:///etc/passwd'), false);
+  assert.equal(isValidUrl('non un url'), false);
+  assert.equal(isValidUrl(''), false);
+  assert.equal(isValidUrl(42), false);
+});
@@ -0,0 +1,95 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+
+process.env.DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'ivot-outbox-test-'));
+process.env.INTERNAL_API_KEY = 'internal-key';
+process.env.OUTBOX_MAX_ATTEMPTS = '3';
+process.env.OUTBOX_BASE_DELAY_MS = '50';
+
+const { outboxService } = await import('../src/services/outboxService.js');
+
+// Risposta per path: /ok → 200, /bad → 400, /down → 503
+const received: Array<{ path: string; apiKey?: string }> = [];
+const server = http.createServer((req, res) => {
+  received.push({ path: req.url!, apiKey: req.headers['x-api-key'] as string | undefined });
+  req.resume();
+  res.statusCode = req.url === '/ok' ? 200 : req.url === '/bad' ? 400 : 503;
+  res.end();
+});
+await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+const baseUrl = `http://127.0.0.1:${(server.address() as any).port}`;
+
+after(() => server.close());
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// enqueue avvia già un flush in background: si attende lo stato atteso
+async function waitFor(condition: () => boolean, timeoutMs = 1000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Condizione non raggiunta in tempo');
+    await sleep(5);
+    await outboxService.flush();
+  }
+}
+
+test('outbox: evento consegnato e rimosso dalla coda', async () => {
+  outboxService.enqueue('test_event', `${baseUrl}/ok`, { n: 1 });
+  await waitFor(() => outboxService.stats().pending === 0);
+
+  assert.equal(received.at(-1)!.apiKey, 'internal-key');
+});
+
+test('outbox: la chiave interna non viene inviata a URL esterni', async () => {
+  outboxService.enqueue('test_event', `${baseUrl}/ok`, { n: 2 }, { withApiKey: false });
+  await waitFor(() => outboxService.stats().pending === 0);
+
+  assert.equal(received.at(-1)!.apiKey, undefined);
+});
+
+test('outbox: 4xx permanente → dead-letter senza retry', async () => {
+  const record = outboxService.enqueue('test_event', `${baseUrl}/bad`, { n: 3 });
+  await waitFor(() => outboxService.getDeadLetter(record.id) !== undefined);
+
+  const dead = outboxService.getDeadLetter(record.id)!;
+  assert.equal(dead.attempts, 1);
+  assert.equal(dead.last_status, 400);
+});
+
+test('outbox: 5xx ritentato con backoff esponenziale fino a MAX_ATTEMPTS', async () => {
+  const record = outboxService.enqueue('test_event', `${baseUrl}/down`, { n: 4 });
+  await waitFor(() => record.attempts === 1 && record.last_status === 503);
+
+  // Primo retry dopo BASE_DELAY_MS, il secondo dopo il doppio
+  const firstDelay = record.next_attempt_at - Date.parse(record.last_attempt_at!);
+  assert.ok(firstDelay >= 50 && firstDelay < 100, `delay ${firstDelay}`);
+
+  await outboxService.flush();
+  assert.equal(record.attempts, 1, 'nessun tentativo prima di next_attempt_at');
+
+  await waitFor(() => record.attempts === 2 && record.next_attempt_at > Date.parse(record.last_attempt_at!));
+  const secondDelay = record.next_attempt_at - Date.parse(record.last_attempt_at!);
+  assert.ok(secondDelay >= 100 && secondDelay < 150, `delay ${secondDelay}`);
+
+  await waitFor(() => outboxService.getDeadLetter(record.id) !== undefined);
+
+  const dead = outboxService.getDeadLetter(record.id)!;
+  assert.equal(dead.attempts, 3);
+  assert.equal(dead.last_status, 503);
+});
+
+test('outbox: redrive rimette in coda un evento in dead-letter', async () => {
+  const record = outboxService.enqueue('test_event', `${baseUrl}/bad`, { n: 5 });
+  await waitFor(() => outboxService.getDeadLetter(record.id) !== undefined);
+
+  const redriven = outboxService.redrive(record.id);
+
+  assert.ok(redriven);
+  // Ancora 400: torna in dead-letter dopo un solo nuovo tentativo (contatore azzerato)
+  await waitFor(() => outboxService.getDeadLetter(record.id) !== undefined);
+  assert.equal(outboxService.getDeadLetter(record.id)!.attempts, 1);
+});
@@ -0,0 +1,113 @@
+import { test, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+
+const CHUNK_SIZE = 1000;
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ivot-upload-test-'));
+const video = crypto.randomBytes(2500);
+const videoPath = path.join(tmpDir, 'video.mp4');
+fs.writeFileSync(videoPath, video);
+
+// Host di upload locale: conserva i byte ricevuti per container
+const received = new Map<string, Buffer>();
+const requests: Array<{ method: string; offset?: string }> = [];
+// Chunk che arriva solo in parte: byte accettati prima di rispondere 503
+let partialChunk: { offset: number; accepted: number } | undefined;
+let rejectChunks = false;
+
+const server = http.createServer(async (req, res) => {
+  const containerId = req.url!.split('/').pop()!;
+  const current = received.get(containerId) ?? Buffer.alloc(0);
+  requests.push({ method: req.method!, offset: req.headers['offset'] as string | undefined });
+  res.setHeader('Content-Type', 'application/json');
+
+  if (req.headers['authorization'] !== 'OAuth upload-token') {
+    res.statusCode = 401;
+    return res.end(JSON.stringify({ error: { message: 'Invalid token', code: 190 } }));
+  }
+
+  if (req.method === 'GET') {
+    return res.end(JSON.stringify({ offset: current.length }));
+  }
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  let body = Buffer.concat(chunks);
+
+  if (rejectChunks) {
+    res.statusCode = 400;
+    return res.end(JSON.stringify({ error: { message: 'Invalid offset', code: 100 } }));
+  }
+
+  // L'host scrive all'offset indicato dal client
+  const offset = Number(req.headers['offset']);
+  const partial = partialChunk?.offset === offset;
+  if (partial) {
+    body = body.subarray(0, partialChunk!.accepted);
+    partialChunk = undefined;
+  }
+
+  received.set(containerId, Buffer.concat([current.subarray(0, offset), body]));
+
+  if (partial) {
+    res.statusCode = 503;
+    return res.end(JSON.stringify({ error: { message: 'Service unavailable', code: 2 } }));
+  }
+  res.end(JSON.stringify({ success: true }));
+});
+await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+process.env.DATA_DIR = tmpDir;
+process.env.INSTAGRAM_UPLOAD_BASE_URL = `http://127.0.0.1:${(server.address() as any).port}`;
+process.env.INSTAGRAM_UPLOAD_CHUNK_SIZE = String(CHUNK_SIZE);
+process.env.INSTAGRAM_UPLOAD_MAX_RETRIES = '3';
+
+const { instagramService } = await import('../src/services/instagramService.js');
+
+// Log di avanzamento dell'upload non necessari nell'output dei test
+mock.method(console, 'log', () => {});
+
+after(() => server.close());
+
+test('upload resumable: file inviato a chunk con offset e file_size', async () => {
+  requests.length = 0;
+  const progress: number[] = [];
+
+  await instagramService.uploadVideoFile('container-1', videoPath, 'upload-token', update => {
+    progress.push(update.bytes_uploaded!);
+  });
+
+  assert.ok(received.get('container-1')!.equals(video));
+  assert.deepEqual(requests.map(item => item.offset), ['0', '1000', '2000']);
+  assert.deepEqual(progress, [1000, 2000, 2500]);
+});
+
+test('upload resumable: dopo un chunk arrivato in parte riprende dall\'offset dell\'host', async () => {
+  requests.length = 0;
+  partialChunk = { offset: 1000, accepted: 400 };
+
+  await instagramService.uploadVideoFile('container-2', videoPath, 'upload-token');
+
+  assert.ok(received.get('container-2')!.equals(video));
+  assert.deepEqual(
+    requests.map(item => `${item.method} ${item.offset ?? ''}`.trim()),
+    ['POST 0', 'POST 1000', 'GET', 'POST 1400', 'POST 2400']
+  );
+});
+
+test('upload resumable: errore 4xx non ritentato', async () => {
+  requests.length = 0;
+  rejectChunks = true;
+
+  try {
+    await assert.rejects(() => instagramService.uploadVideoFile('container-3', videoPath, 'upload-token'));
+  } finally {
+    rejectChunks = false;
+  }
+
+  assert.equal(requests.length, 1);
+});
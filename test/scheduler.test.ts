@@ -0,0 +1,122 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFile } from 'child_process';
+import crypto from 'crypto';
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+
+const key = () => crypto.randomBytes(32).toString('base64');
+const V1 = `v1:${key()}`;
+const V2 = `v2:${key()}`;
+const TOKEN = 'IGAA-scheduled-token';
+
+// Graph API locale: accetta solo il token del post programmato
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url!, 'http://localhost');
+  req.resume();
+  res.setHeader('Content-Type', 'application/json');
+
+  if (url.searchParams.get('access_token') !== TOKEN && url.pathname.startsWith('/v23.0/')) {
+    res.statusCode = 400;
+    res.end(JSON.stringify({ error: { message: 'Invalid OAuth access token', code: 190 } }));
+    return;
+  }
+
+  const routes: Record<string, unknown> = {
+    'POST /v23.0/1789/media': { id: 'container-1' },
+    'GET /v23.0/container-1': { status_code: 'FINISHED' },
+    'POST /v23.0/1789/media_publish': { id: 'media-1' },
+    'GET /v23.0/media-1': { permalink: 'https://www.instagram.com/p/abc/', shortcode: 'abc' }
+  };
+  res.end(JSON.stringify(routes[`${req.method} ${url.pathname}`] ?? {}));
+});
+await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+const baseUrl = `http://127.0.0.1:${(server.address() as any).port}`;
+
+after(() => server.close());
+
+process.env.DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'ivot-scheduler-test-'));
+process.env.TOKEN_VAULT_STORE = 'memory';
+process.env.TOKEN_VAULT_KEYS = `${V1},${V2}`;
+
+// Post programmato prima della rotazione (token cifrato con v1)
+process.env.TOKEN_VAULT_ACTIVE_KEY_ID = 'v1';
+const { tokenVaultService: vaultBeforeRotation } = await import('../src/services/tokenVaultService.js?before-rotation');
+
+const schedulesFile = path.join(process.env.DATA_DIR, 'schedules.json');
+fs.writeFileSync(schedulesFile, JSON.stringify([{
+  id: 'post-1',
+  instagram_account_id: '1789',
+  type: 'image',
+  image_url: 'https://cdn.example.com/1.jpg',
+  caption: 'Post programmato',
+  publish_at: new Date(Date.now() - 1000).toISOString(),
+  status: 'scheduled',
+  sealed_access_token: vaultBeforeRotation.seal(TOKEN, 'post-1'),
+  created_at: new Date().toISOString(),
+  updated_at: new Date().toISOString()
+}]));
+
+// Nuova chiave attiva: il servizio riparte con v1 e v2
+process.env.TOKEN_VAULT_ACTIVE_KEY_ID = 'v2';
+const { tokenVaultService } = await import('../src/services/tokenVaultService.js');
+await import('../src/services/schedulerService.js');
+
+/**
+ * Riavvio del servizio con la sola chiave v2: pubblica i post
+ * programmati scaduti e restituisce il post aggiornato
+ */
+async function publishWithoutOldKey() {
+  const script = `
+    const { schedulerService } = await import('./src/services/schedulerService.js');
+    schedulerService.start();
+    let post = schedulerService.get('post-1');
+    while (post.status === 'scheduled' || post.status === 'publishing') {
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+    console.log('RESULT:' + JSON.stringify(post));
+    process.exit(0);
+  `;
+
+  const { stdout } = await promisify(execFile)(
+    process.execPath,
+    ['--import', 'tsx', '--input-type=module', '-e', script],
+    {
+      cwd: path.resolve(import.meta.dirname, '..'),
+      timeout: 30_000,
+      env: {
+        ...process.env,
+        TOKEN_VAULT_KEYS: V2,
+        TOKEN_VAULT_ACTIVE_KEY_ID: 'v2',
+        GRAPH_INSTAGRAM_BASE_URL: baseUrl,
+        IVOT_BACKEND_WEBHOOK_URL: baseUrl
+      }
+    }
+  );
+
+  const line = stdout.split('\n').find(item => item.startsWith('RESULT:'));
+  return JSON.parse(line!.slice('RESULT:'.length));
+}
+
+test('rotazione: ri-cifra anche i token dei post programmati', async () => {
+  const result = await tokenVaultService.rotate();
+
+  assert.equal(result.rotated, 1);
+  assert.deepEqual(result.failed, []);
+
+  const [stored] = JSON.parse(fs.readFileSync(schedulesFile, 'utf8'));
+  assert.equal(stored.sealed_access_token.key_id, 'v2');
+  assert.ok(!JSON.stringify(stored).includes(TOKEN));
+});
+
+test('rotazione: post programmato pubblicato dopo la rimozione della vecchia chiave', async () => {
+  const post = await publishWithoutOldKey();
+
+  assert.equal(post.error, undefined);
+  assert.equal(post.status, 'published');
+  assert.equal(post.media_id, 'media-1');
+  assert.equal(post.permalink, 'https://www.instagram.com/p/abc/');
+});
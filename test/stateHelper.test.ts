@@ -0,0 +1,91 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+process.env.DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'ivot-state-test-'));
+process.env.STATE_SECRET_KEY = 'test-secret-key-with-at-least-32-characters';
+process.env.OAUTH_STATE_TTL_MS = '1000';
+
+const { createSecureState, consumeSecureState, verifySecureState } = await import('../src/utils/stateHelper.js');
+const { FileNonceStore, MemoryNonceStore, setNonceStore } = await import('../src/utils/nonceStore.js');
+
+const newState = () => createSecureState(
+  JSON.stringify({ userId: 'user-1', callbackUrl: 'http://localhost:3000/callback', state: 'app-state' }),
+  'app-state'
+).state;
+
+test('state: TTL configurabile con OAUTH_STATE_TTL_MS', () => {
+  const result = verifySecureState(newState());
+
+  assert.equal(result.valid, true);
+  assert.equal(result.data!.expiry - result.data!.timestamp, 1000);
+});
+
+test('state: consumato una sola volta (anti-replay)', async () => {
+  setNonceStore(new MemoryNonceStore());
+  const state = newState();
+
+  const first = await consumeSecureState(state);
+  assert.equal(first.valid, true);
+  assert.equal(first.data!.userId, 'user-1');
+
+  const replay = await consumeSecureState(state);
+  assert.equal(replay.valid, false);
+  assert.equal(replay.code, 'STATE_REPLAYED');
+});
+
+test('state: firma alterata → STATE_INVALID_SIGNATURE, nonce non consumato', async () => {
+  setNonceStore(new MemoryNonceStore());
+  const state = newState();
+  const parts = state.split('.');
+  parts[1] = 'other-app-state';
+
+  const tampered = await consumeSecureState(parts.join('.'));
+  assert.equal(tampered.code, 'STATE_INVALID_SIGNATURE');
+
+  // Lo state originale resta utilizzabile
+  assert.equal((await consumeSecureState(state)).valid, true);
+});
+
+test('state: formato non valido e state mancante', () => {
+  assert.equal(verifySecureState('a.b.c').code, 'STATE_MALFORMED');
+  assert.equal(verifySecureState('').code, 'STATE_MISSING');
+});
+
+test('state: scaduto dopo il TTL', async () => {
+  const state = newState();
+  await new Promise(resolve => setTimeout(resolve, 1100));
+
+  const result = await consumeSecureState(state);
+  assert.equal(result.valid, false);
+  assert.equal(result.code, 'STATE_EXPIRED');
+});
+
+test('state: errore dello store → rifiutato (STATE_STORE_ERROR)', async () => {
+  setNonceStore({ consume: async () => { throw new Error('store down'); } });
+
+  const result = await consumeSecureState(newState());
+  assert.equal(result.valid, false);
+  assert.equal(result.code, 'STATE_STORE_ERROR');
+});
+
+test('nonce store su file: i nonce consumati sopravvivono a un riavvio', async () => {
+  const before = new FileNonceStore();
+  assert.equal(await before.consume('nonce-1', 60_000), true);
+
+  const afterRestart = new FileNonceStore();
+  assert.equal(await afterRestart.consume('nonce-1', 60_000), false);
+  assert.equal(await afterRestart.consume('nonce-2', 60_000), true);
+});
+
+test('nonce store in memoria: nonce di nuovo accettato dopo il TTL', async () => {
+  const store = new MemoryNonceStore();
+
+  assert.equal(await store.consume('nonce-1', 20), true);
+  assert.equal(await store.consume('nonce-1', 20), false);
+
+  await new Promise(resolve => setTimeout(resolve, 40));
+  assert.equal(await store.consume('nonce-1', 20), true);
+});
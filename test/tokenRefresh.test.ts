@@ -0,0 +1,179 @@
+import { mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AxiosError } from 'axios';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const RETRY_DELAY_MS = 40;
+
+process.env.DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'ivot-refresh-test-'));
+process.env.TOKEN_VAULT_STORE = 'memory';
+process.env.TOKEN_VAULT_KEYS = `v1:${crypto.randomBytes(32).toString('base64')}`;
+process.env.TOKEN_VAULT_ACTIVE_KEY_ID = 'v1';
+process.env.TOKEN_REFRESH_WINDOW_DAYS = '7';
+process.env.TOKEN_REFRESH_JITTER_MS = String(DAY_MS);
+process.env.TOKEN_REFRESH_MAX_ATTEMPTS = '3';
+process.env.TOKEN_REFRESH_RETRY_DELAY_MS = String(RETRY_DELAY_MS);
+process.env.IVOT_BACKEND_WEBHOOK_URL = 'https://backend.ivot.example/api/webhooks/instagram';
+
+const { tokenVaultService } = await import('../src/services/tokenVaultService.js');
+const { tokenRefreshService } = await import('../src/services/tokenRefreshService.js');
+const { instagramService } = await import('../src/services/instagramService.js');
+const { outboxService } = await import('../src/services/outboxService.js');
+
+// Jitter deterministico: metà di TOKEN_REFRESH_JITTER_MS
+mock.method(Math, 'random', () => 0.5);
+mock.method(console, 'log', () => {});
+
+// Eventi accodati per IVOT, senza consegna
+const enqueued: Array<{ eventType: string; url: string; payload: any }> = [];
+outboxService.enqueue = ((eventType: string, url: string, payload: any) => {
+  enqueued.push({ eventType, url, payload });
+}) as any;
+
+// Comportamento del refresh per token: nuovo token o errore da lanciare
+const refreshCalls: string[] = [];
+const refreshBehaviour = new Map<string, () => Error | string>();
+mock.method(instagramService, 'refreshLongLivedToken', async (accessToken: string) => {
+  refreshCalls.push(accessToken);
+  const outcome = refreshBehaviour.get(accessToken)?.();
+  if (outcome instanceof Error) throw outcome;
+  return { access_token: outcome ?? `${accessToken}-refreshed`, token_type: 'bearer', expires_in: 60 * 24 * 3600 };
+});
+
+const saveToken = (id: string, expiresInMs: number) => tokenVaultService.save({
+  instagram_account_id: id,
+  access_token: `token-${id}`,
+  expires_at: new Date(Date.now() + expiresInMs).toISOString(),
+  username: `user_${id}`
+});
+
+const stateOf = (id: string) => tokenRefreshService.list().find(state => state.instagram_account_id === id);
+const callsFor = (id: string) => refreshCalls.filter(token => token.startsWith(`token-${id}`)).length;
+const eventsFor = (id: string) => enqueued.filter(event => event.payload.instagram_account_id === id);
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const graphError = (code: number, message: string) => new AxiosError(message, 'ERR_BAD_REQUEST', undefined, undefined, {
+  status: 400,
+  statusText: 'Bad Request',
+  headers: {},
+  config: {} as any,
+  data: { error: { message, type: 'OAuthException', code } }
+});
+
+test('refresh: il jitter anticipa la finestra di ogni token', async () => {
+  // Finestra 7 giorni + jitter 12 ore: dovuto solo se scade entro 7 giorni e 12 ore
+  await saveToken('100', 7 * DAY_MS + 11 * HOUR_MS);
+  await saveToken('101', 7 * DAY_MS + 13 * HOUR_MS);
+
+  await tokenRefreshService.tick();
+
+  assert.equal(stateOf('100')?.jitter_ms, 12 * HOUR_MS);
+  assert.equal(stateOf('101')?.jitter_ms, 12 * HOUR_MS);
+  assert.equal(callsFor('100'), 1);
+  assert.equal(callsFor('101'), 0);
+
+  assert.equal(stateOf('100')?.status, 'ok');
+  assert.ok(stateOf('100')?.last_refreshed_at);
+  assert.equal(await tokenVaultService.getToken('100'), 'token-100-refreshed');
+
+  const [saved] = (await tokenVaultService.list()).filter(token => token.instagram_account_id === '100');
+  assert.ok(Date.parse(saved.expires_at) > Date.now() + 59 * DAY_MS);
+
+  // Già aggiornato: il tick successivo non lo tocca
+  await tokenRefreshService.tick();
+  assert.equal(callsFor('100'), 1);
+  assert.deepEqual(eventsFor('100'), []);
+});
+
+test('refresh: retry con backoff esponenziale, poi failed e una sola notifica a IVOT', async () => {
+  refreshBehaviour.set('token-200', () => new Error('socket hang up'));
+  await saveToken('200', DAY_MS);
+
+  await tokenRefreshService.tick();
+  const first = stateOf('200')!;
+  assert.equal(first.status, 'retrying');
+  assert.equal(first.attempts, 1);
+  assert.equal(first.last_error, 'socket hang up');
+  const firstDelay = Date.parse(first.next_attempt_at!) - Date.now();
+  assert.ok(firstDelay > 0 && firstDelay <= RETRY_DELAY_MS, `delay ${firstDelay}`);
+
+  // Prima di next_attempt_at non riprova
+  await tokenRefreshService.tick();
+  assert.equal(callsFor('200'), 1);
+
+  await sleep(RETRY_DELAY_MS + 10);
+  await tokenRefreshService.tick();
+  assert.equal(callsFor('200'), 2);
+  const secondDelay = Date.parse(stateOf('200')!.next_attempt_at!) - Date.now();
+  assert.ok(secondDelay > RETRY_DELAY_MS && secondDelay <= 2 * RETRY_DELAY_MS, `delay ${secondDelay}`);
+  assert.deepEqual(eventsFor('200'), []);
+
+  await sleep(2 * RETRY_DELAY_MS + 10);
+  await tokenRefreshService.tick();
+  assert.equal(callsFor('200'), 3);
+  assert.equal(stateOf('200')?.status, 'failed');
+  assert.equal(stateOf('200')?.next_attempt_at, undefined);
+
+  const events = eventsFor('200');
+  assert.equal(events.length, 1);
+  assert.equal(events[0].eventType, 'token_failed');
+  assert.equal(events[0].url, 'https://backend.ivot.example/api/webhooks/instagram/events');
+  const [token] = (await tokenVaultService.list()).filter(item => item.instagram_account_id === '200');
+  assert.deepEqual(events[0].payload.data, {
+    status: 'failed',
+    username: 'user_200',
+    expires_at: token.expires_at,
+    error: 'socket hang up',
+    reconnect_required: true
+  });
+
+  // Stato finale: niente altri tentativi né notifiche
+  await sleep(4 * RETRY_DELAY_MS);
+  await tokenRefreshService.tick();
+  assert.equal(callsFor('200'), 3);
+  assert.equal(eventsFor('200').length, 1);
+});
+
+test('refresh: token revocato (190) → niente retry, notifica token_revoked', async () => {
+  refreshBehaviour.set('token-300', () => graphError(190, 'Error validating access token'));
+  await saveToken('300', DAY_MS);
+
+  await tokenRefreshService.tick();
+  await tokenRefreshService.tick();
+
+  assert.equal(callsFor('300'), 1);
+  assert.equal(stateOf('300')?.status, 'revoked');
+
+  const events = eventsFor('300');
+  assert.deepEqual(events.map(event => event.eventType), ['token_revoked']);
+  assert.equal(events[0].payload.data.reconnect_required, true);
+});
+
+test('refresh: token già scaduto → notifica token_expired senza chiamare Instagram', async () => {
+  await saveToken('400', -HOUR_MS);
+
+  await tokenRefreshService.tick();
+  await tokenRefreshService.tick();
+
+  assert.equal(callsFor('400'), 0);
+  assert.equal(stateOf('400')?.status, 'expired');
+  assert.deepEqual(eventsFor('400').map(event => event.eventType), ['token_expired']);
+});
+
+test('refresh: un nuovo token dopo il revoke riattiva il refresh', async () => {
+  refreshBehaviour.delete('token-300');
+  // Nuovo login: stesso account, nuova scadenza
+  await saveToken('300', 2 * DAY_MS);
+
+  await tokenRefreshService.tick();
+
+  assert.equal(callsFor('300'), 2);
+  assert.equal(stateOf('300')?.status, 'ok');
+  assert.equal(stateOf('300')?.last_error, undefined);
+  assert.equal(eventsFor('300').length, 1);
+});
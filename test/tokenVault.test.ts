@@ -0,0 +1,163 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const key = () => crypto.randomBytes(32).toString('base64');
+const KEYS = `v1:${key()},v2:${key()}`;
+
+process.env.DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'ivot-vault-test-'));
+process.env.TOKEN_VAULT_STORE = 'memory';
+process.env.TOKEN_VAULT_KEYS = KEYS;
+process.env.TOKEN_VAULT_ACTIVE_KEY_ID = 'v1';
+process.env.INTERNAL_API_KEY = 'internal-key';
+process.env.STATE_SECRET_KEY = 'test-secret-key-with-at-least-32-characters';
+
+const { tokenVaultService, MemoryTokenVaultStorage } = await import('../src/services/tokenVaultService.js');
+const { resolveAccessToken } = await import('../src/middleware/tokenMiddleware.js');
+const { refreshToken } = await import('../src/controllers/instagramController.js');
+const { instagramService } = await import('../src/services/instagramService.js');
+
+const storage = new MemoryTokenVaultStorage();
+tokenVaultService.setStorage(storage);
+
+const TOKEN_INPUT = {
+  instagram_account_id: '1789',
+  access_token: 'IGAA-secret-token',
+  expires_at: '2030-01-01T00:00:00.000Z',
+  username: 'ivot'
+};
+
+test('vault: salva cifrato e restituisce il token in chiaro', async () => {
+  await tokenVaultService.save(TOKEN_INPUT);
+
+  const record = await storage.get('1789');
+  assert.ok(record);
+  assert.equal(record.key_id, 'v1');
+  assert.ok(!JSON.stringify(record).includes('IGAA-secret-token'));
+
+  assert.equal(await tokenVaultService.getToken('1789'), 'IGAA-secret-token');
+  assert.equal(await tokenVaultService.getToken('unknown'), undefined);
+});
+
+test('vault: un record copiato su un altro account non si decifra', async () => {
+  await tokenVaultService.save(TOKEN_INPUT);
+  const record = (await storage.get('1789'))!;
+
+  await storage.set({ ...record, instagram_account_id: '666' });
+
+  await assert.rejects(() => tokenVaultService.getToken('666'));
+  await storage.delete('666');
+});
+
+test('vault: la rotazione ri-cifra con la nuova chiave attiva', async () => {
+  await tokenVaultService.save(TOKEN_INPUT);
+
+  // Stessa lista di chiavi, v2 attiva (istanza separata del modulo)
+  process.env.TOKEN_VAULT_ACTIVE_KEY_ID = 'v2';
+  const { tokenVaultService: rotatedVault } = await import('../src/services/tokenVaultService.js?rotation');
+  rotatedVault.setStorage(storage);
+
+  const result = await rotatedVault.rotate();
+
+  assert.equal(result.rotated, 1);
+  assert.deepEqual(result.failed, []);
+  assert.equal((await storage.get('1789'))!.key_id, 'v2');
+  assert.equal(await rotatedVault.getToken('1789'), 'IGAA-secret-token');
+});
+
+test('vault: seal/unseal legati al context', () => {
+  const sealed = tokenVaultService.seal('scheduled-token', 'schedule-1');
+
+  assert.equal(tokenVaultService.unseal(sealed, 'schedule-1'), 'scheduled-token');
+  assert.throws(() => tokenVaultService.unseal(sealed, 'schedule-2'));
+});
+
+// ==========================================
+// resolveAccessToken
+// ==========================================
+
+function mockRequest(body: Record<string, unknown>, headers: Record<string, string> = {}) {
+  return { body, query: {}, headers, method: 'POST', baseUrl: '/api/v1/instagram/auth', path: '/publish/image' } as any;
+}
+
+function mockResponse() {
+  const res: any = { locals: {}, headers: {} as Record<string, string>, statusCode: 200, body: undefined };
+  res.setHeader = (name: string, value: string) => { res.headers[name] = value; };
+  res.status = (code: number) => { res.statusCode = code; return res; };
+  res.json = (body: unknown) => { res.body = body; return res; };
+  return res;
+}
+
+async function runMiddleware(req: any) {
+  const res = mockResponse();
+  let nextCalled = false;
+  await resolveAccessToken(req, res, () => { nextCalled = true; });
+  return { res, nextCalled };
+}
+
+test('resolveAccessToken: token dal vault solo con la chiave interna', async () => {
+  await tokenVaultService.save(TOKEN_INPUT);
+
+  const withoutKey = await runMiddleware(mockRequest({ instagram_account_id: '1789' }));
+  assert.equal(withoutKey.nextCalled, false);
+  assert.equal(withoutKey.res.statusCode, 401);
+
+  const withKey = await runMiddleware(mockRequest({ instagram_account_id: '1789' }, { 'x-api-key': 'internal-key' }));
+  assert.equal(withKey.nextCalled, true);
+  assert.equal(withKey.res.locals.accessToken, 'IGAA-secret-token');
+  assert.equal(withKey.res.locals.tokenSource, 'vault');
+  assert.equal(withKey.res.locals.accountId, '1789');
+});
+
+test('resolveAccessToken: instagram_account_id anche dalla query', async () => {
+  await tokenVaultService.save(TOKEN_INPUT);
+  const req = mockRequest({}, { 'x-api-key': 'internal-key' });
+  req.query = { instagram_account_id: '1789' };
+
+  const { res, nextCalled } = await runMiddleware(req);
+
+  assert.equal(nextCalled, true);
+  assert.equal(res.locals.accessToken, 'IGAA-secret-token');
+  assert.equal(res.locals.accountId, '1789');
+});
+
+test('resolveAccessToken: account senza token nel vault → 401 TOKEN_NOT_FOUND', async () => {
+  const { res, nextCalled } = await runMiddleware(
+    mockRequest({ instagram_account_id: 'missing' }, { 'x-api-key': 'internal-key' })
+  );
+
+  assert.equal(nextCalled, false);
+  assert.equal(res.statusCode, 401);
+  assert.equal(res.body.error, 'TOKEN_NOT_FOUND');
+});
+
+test('resolveAccessToken: access_token esplicito accettato ma segnalato come deprecato', async () => {
+  const { res, nextCalled } = await runMiddleware(mockRequest({ access_token: 'explicit', instagram_account_id: '1789' }));
+
+  assert.equal(nextCalled, true);
+  assert.equal(res.locals.accessToken, 'explicit');
+  assert.equal(res.locals.tokenSource, 'explicit');
+  assert.equal(res.headers['Deprecation'], 'true');
+});
+
+test('refreshToken: account id dalla query → token rinnovato salvato nel vault', async () => {
+  await tokenVaultService.save(TOKEN_INPUT);
+  instagramService.refreshLongLivedToken = async () => ({
+    access_token: 'IGAA-refreshed-token',
+    token_type: 'bearer',
+    expires_in: 5_184_000
+  });
+
+  const req = mockRequest({}, { 'x-api-key': 'internal-key' });
+  req.query = { instagram_account_id: '1789' };
+  const { res } = await runMiddleware(req);
+
+  await refreshToken(req, res);
+
+  assert.equal(res.statusCode, 200);
+  assert.equal(res.body.access_token, undefined);
+  assert.equal(await tokenVaultService.getToken('1789'), 'IGAA-refreshed-token');
+});
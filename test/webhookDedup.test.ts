@@ -0,0 +1,79 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+process.env.DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'ivot-dedup-test-'));
+process.env.WEBHOOK_DEDUP_STORE = 'memory';
+
+const {
+  changeEventKey,
+  FileDedupStore,
+  isDuplicateEvent,
+  MemoryDedupStore,
+  messagingEventKey,
+  setDedupStore
+} = await import('../src/utils/webhookDedup.js');
+
+test('dedup: stesso mid processato una sola volta', async () => {
+  setDedupStore(new MemoryDedupStore());
+  const key = messagingEventKey('1789', 1700000000, { message: { mid: 'm_1', text: 'ciao' } });
+
+  assert.equal(key, 'mid:m_1');
+  assert.equal(await isDuplicateEvent(key), false);
+  assert.equal(await isDuplicateEvent(key), true);
+});
+
+test('dedup: la cancellazione con lo stesso mid non è un duplicato', async () => {
+  setDedupStore(new MemoryDedupStore());
+  const original = messagingEventKey('1789', 1700000000, { message: { mid: 'm_1', text: 'ciao' } });
+  const deleted = messagingEventKey('1789', 1700000100, { message: { mid: 'm_1', is_deleted: true } });
+
+  assert.notEqual(original, deleted);
+  assert.equal(await isDuplicateEvent(original), false);
+  assert.equal(await isDuplicateEvent(deleted), false);
+  assert.equal(await isDuplicateEvent(deleted), true);
+});
+
+test('dedup: stesso messaggio da "messaging" e da "changes" → stessa chiave', () => {
+  const fromMessaging = messagingEventKey('1789', 1700000000, { message: { mid: 'm_2' } });
+  const fromChanges = changeEventKey('1789', 1700000000, { field: 'messages', value: { message: { mid: 'm_2' } } });
+
+  assert.equal(fromMessaging, fromChanges);
+});
+
+test('dedup: commenti per id, altri eventi per hash del contenuto', () => {
+  assert.equal(changeEventKey('1789', 1700000000, { field: 'comments', value: { id: 'c_1' } }), 'comment:c_1');
+
+  const read = { read: { mid: 'm_3' } };
+  assert.equal(messagingEventKey('1789', 1700000000, read), messagingEventKey('1789', 1700000000, { ...read }));
+  assert.notEqual(
+    messagingEventKey('1789', 1700000000, read),
+    messagingEventKey('1789', 1700000000, { read: { mid: 'm_4' } })
+  );
+});
+
+test('dedup: errore dello store → evento processato comunque', async () => {
+  setDedupStore({ markIfNew: async () => { throw new Error('store down'); } });
+
+  assert.equal(await isDuplicateEvent('mid:m_5'), false);
+});
+
+test('dedup store su file: le chiavi sopravvivono a un riavvio', async () => {
+  const before = new FileDedupStore();
+  assert.equal(await before.markIfNew('mid:m_6', 60_000), true);
+
+  const afterRestart = new FileDedupStore();
+  assert.equal(await afterRestart.markIfNew('mid:m_6', 60_000), false);
+});
+
+test('dedup store in memoria: chiave di nuovo accettata dopo il TTL', async () => {
+  const store = new MemoryDedupStore();
+
+  assert.equal(await store.markIfNew('mid:m_7', 20), true);
+  assert.equal(await store.markIfNew('mid:m_7', 20), false);
+
+  await new Promise(resolve => setTimeout(resolve, 40));
+  assert.equal(await store.markIfNew('mid:m_7', 20), true);
+});
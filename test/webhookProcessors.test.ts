@@ -0,0 +1,34 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+process.env.DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'ivot-processors-test-'));
+process.env.IVOT_BACKEND_WEBHOOK_URL = 'https://backend.ivot.example/api/webhooks/instagram';
+delete process.env.IVOT_FRONTEND_URL;
+
+const { outboxService } = await import('../src/services/outboxService.js');
+const { processChangeEvent, processMessagingEvent } = await import('../src/utils/webhookProcessors.js');
+
+// Eventi accodati, senza consegna
+const enqueued: Array<{ eventType: string; url: string }> = [];
+outboxService.enqueue = ((eventType: string, url: string) => {
+  enqueued.push({ eventType, url });
+}) as any;
+
+test('eventi webhook: DM, commenti e mention verso lo stesso backend IVOT', async () => {
+  await processMessagingEvent('1789', {
+    sender: { id: '5521' },
+    recipient: { id: '1789' },
+    timestamp: 1700000000000,
+    message: { mid: 'm_1', text: 'ciao' }
+  }, 1700000000);
+  await processChangeEvent({ field: 'comments', value: { id: 'c_1', text: 'bello', media: { id: 'media-1' } } }, 1700000000);
+  await processChangeEvent({ field: 'mentions', value: { media_id: 'media-1', comment_id: 'c_2' } }, 1700000000);
+
+  assert.deepEqual(enqueued.map(item => item.eventType), ['message', 'comment', 'mention']);
+  for (const { url } of enqueued) {
+    assert.ok(url.startsWith('https://backend.ivot.example/api/webhooks/instagram/'), url);
+  }
+});